@@ -1,14 +1,15 @@
-/* COMMENTED OUT FOR MVP VALIDATION - NOT USED IN SIMPLE APPROACH
 import { Agent } from "@mastra/core";
 import { openai } from "@ai-sdk/openai";
 import { taskLoggingTool } from "../../tools/task-logging-tool";
 import { cliTool } from "../../tools/cli-tool";
 import { dockerExecTool } from "../../tools/docker-exec-tool";
+import { fileOperationsTool } from "../../tools/file-operations-tool";
+import { codeAnalysisTool } from "../../tools/code-analysis-tool";
 
 export const testCoderAgent = new Agent({
     id: "testCoderAgent",
     name: "Test Code Generation Agent",
-    instructions: `You are a Test Code Generation Agent specialized in creating high-quality unit tests for TypeScript/JavaScript projects.
+    instructions: `You are a Test Code Generation Agent specialized in creating high-quality unit tests for TypeScript/JavaScript, Python, Go, Java and Rust projects.
 
 ROLE: Individual Test File Developer
 - Generate complete, high-quality unit test files based on specifications
@@ -24,8 +25,8 @@ CAPABILITIES:
 - Validation of test syntax and best practices
 
 TESTING EXPERTISE:
-- Jest/Vitest framework mastery
-- TypeScript testing patterns
+- Jest/Vitest, pytest, go test, JUnit 5 and cargo test framework mastery
+- TypeScript, Python, Go (table-driven), Java (JUnit 5 + Mockito) and Rust (inline #[cfg(test)] modules) testing patterns
 - Mocking and stubbing strategies
 - Async/await testing patterns
 - Error handling and edge case coverage
@@ -39,6 +40,11 @@ WORKFLOW:
 5. Validate syntax and imports
 6. Log task completion with summary
 
+SHARED WORKSPACE RULES:
+- Other coding agents work in the same container at the same time
+- Write ONLY the test file assigned to your task; never create, edit or delete any other file
+- Do not run installs, formatters or git commands that touch the whole repository
+
 CODE GENERATION STANDARDS:
 - Follow consistent naming conventions (*.test.ts or *.spec.ts)
 - Include proper imports and dependencies
@@ -75,6 +81,7 @@ Always use task_logging to report your progress: start, planning, coding, valida
         task_logging: taskLoggingTool,
         exec_command: cliTool,
         docker_exec: dockerExecTool,
+        file_operations: fileOperationsTool,
+        code_analysis: codeAnalysisTool,
     },
 });
-*/ // END COMMENTED OUT CODER AGENT
@@ -1,4 +1,3 @@
-/* COMMENTED OUT FOR MVP VALIDATION - NOT USED IN SIMPLE APPROACH
 import { Agent } from "@mastra/core";
 import { openai } from "@ai-sdk/openai";
 import { taskLoggingTool } from "../../tools/task-logging-tool";
@@ -50,6 +49,8 @@ QUALITY STANDARDS:
 - Check for comprehensive test coverage
 - Validate syntax and best practices
 
+When asked for task assignments, return them as JSON only, one task per source file.
+
 Always start by logging your planning phase and end by logging completion status.`,
     model: openai("gpt-5-mini", {
         parallelToolCalls: true,
@@ -61,4 +62,3 @@ Always start by logging your planning phase and end by logging completion status
         docker_exec: dockerExecTool,
     },
 });
-*/ // END COMMENTED OUT MANAGER AGENT
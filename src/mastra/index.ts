@@ -14,19 +14,37 @@ import {
   testSpecificationAgent,
   testValidationAgent,
   unitTestAgent,
-  // testManagerAgent,
-  // testCoderAgent,
+  testManagerAgent,
+  testCoderAgent,
 } from './agents';
 import { dockerSetupWorkflow } from './workflows/test/01-docker-setup-workflow';
 import { contextGatheringWorkflow } from './workflows/test/02-context-gathering-workflow';
 import { testGenerationWorkflow } from './workflows/test/03-test-generation-workflow';
 import { githubPrWorkflow } from './workflows/test/04-github-pr-workflow';
 import { coverageAnalysisWorkflow } from './workflows/test/05-coverage-analysis-workflow';
+import { reviewFollowUpWorkflow } from './workflows/test/06-review-followup-workflow';
 // import { unitTestWorkflow } from './workflows/unit-test-workflow';
 import { fullPipelineWorkflow } from './workflows/full-pipeline-workflow';
-import { writeFileSync } from 'fs';
-import path from 'path';
-import { associateRunWithProject } from './tools/alert-notifier';
+import { associateRunWithProject, notifyStepStatus } from './tools/alert-notifier';
+import { trackRun, finishRun, getRun, listProjectRuns, markRunDryRun, markRunQueued, markRunResumed, markRunStarted, markRunSuspended } from './tools/run-tracker';
+import { getRunPatch } from './tools/run-patches';
+import { claimWebhookDelivery, isWebhookSecretConfigured, listPullRequestSourceFiles, releaseWebhookDelivery, verifyWebhookSignature } from './tools/github-webhooks';
+import { clearProjectWebhookSubscription, findSubscribedProjects, getProjectWebhookSubscription, setProjectWebhookSubscription } from './tools/webhook-subscriptions';
+import { clearRunTrigger, setRunTrigger, type RunTrigger } from './tools/run-triggers';
+import { clearRunDiffScope } from './tools/diff-scope';
+import { clearRunTestFramework } from './tools/test-frameworks';
+import { approvePlan, clearPlanApproval, editPlan, getPlanReview, rejectPlan, requirePlanApproval, waitForPlanDecision } from './tools/plan-approval';
+import { clearReviewFollowUp, getBotPullRequestProject, listReviewComments, markReviewCommentsHandled, setReviewFollowUp, toReviewFeedback } from './tools/review-followups';
+import { registerActiveRun, unregisterActiveRun, cancelRun, isRunCancelled } from './tools/run-control';
+import { acquireRunSlot, releaseRunSlot, getQueuePosition } from './tools/run-queue';
+import { removeRunContainers, setRunContainersPaused, shouldKeepRunContainers } from './tools/run-containers';
+import { setRunCredentials, clearRunCredentials, getRunGitToken, redactSecrets } from './tools/run-credentials';
+import { createInstallationToken, isGithubAppConfigured, type InstallationToken } from './tools/github-app';
+import { getProjectSandboxPolicy, setProjectSandboxPolicy, clearProjectSandboxPolicy } from './tools/sandbox-policy';
+import { getProjectGenerationBudget, setProjectGenerationBudget, clearProjectGenerationBudget } from './tools/generation-budget';
+import { getProjectPrPolicy, setProjectPrPolicy, clearProjectPrPolicy } from './tools/pr-policy';
+import { getProjectPrTemplate, setProjectPrTemplate, clearProjectPrTemplate, forgetPublishedPr } from './tools/pr-template';
+import { DiffScopeInputSchema, GenerationBudgetOverrideSchema, PlanDecisionSchema, PlanEditSchema, GitHubPullRequestEventSchema, GitHubPullRequestReviewEventSchema, GitHubPushEventSchema, PrPolicyOverrideSchema, PrTemplateOverrideSchema, SandboxPolicyOverrideSchema, WebhookSubscriptionSchema, type ContextData, type DiffScopeInput, type PipelineInput, type RepoRef } from './types';
 
 // Runtime log/telemetry controls
 const LOG_MODE = process.env.LOG_MODE || process.env.MASTRA_LOG_MODE || (process.env.ALERTS_ONLY === 'true' ? 'alerts_only' : 'default');
@@ -40,8 +58,192 @@ const getLogLevel = (): LogLevel => {
   return level;
 };
 
+// A created pipeline run; the review follow-up workflow shares the pipeline input schema
+type PipelineRun =
+  | Awaited<ReturnType<typeof fullPipelineWorkflow.createRunAsync>>
+  | Awaited<ReturnType<typeof reviewFollowUpWorkflow.createRunAsync>>;
+
+type RunOutcome = { status?: string; error?: unknown };
+
+/**
+ * Queue a tracked run behind MAX_CONCURRENT_RUNS, start it once a slot is free and record its
+ * outcome. A run suspended for plan approval gives up its slot until the plan is decided.
+ * Credentials, per-run state (plus `onRelease`) and containers are released when it settles.
+ * Returns the queue position, if the run had to wait.
+ */
+function launchRun(run: PipelineRun, label: string, inputData: PipelineInput, onRelease?: () => void): number | undefined {
+  registerActiveRun(run.runId, () => run.cancel());
+
+  // Runs wait for a free slot (MAX_CONCURRENT_RUNS) before their container is created
+  const slot = acquireRunSlot(run.runId);
+  const queuePosition = getQueuePosition(run.runId);
+  markRunQueued(run.runId, queuePosition);
+  if (queuePosition) {
+    console.log(`[${label}] Run ${run.runId} queued at position ${queuePosition}`);
+  }
+
+  // Fire-and-forget with visible logging
+  const releaseRun = async () => {
+    unregisterActiveRun(run.runId);
+    clearRunCredentials(run.runId);
+    forgetPublishedPr(run.runId);
+    clearRunDiffScope(run.runId);
+    clearPlanApproval(run.runId);
+    clearRunTestFramework(run.runId);
+    onRelease?.();
+    if (!shouldKeepRunContainers()) {
+      const removed = await removeRunContainers(run.runId);
+      if (removed.length > 0) {
+        console.log(`[${label}] Removed ${removed.length} container(s) for run ${run.runId}`);
+      }
+    }
+    releaseRunSlot(run.runId);
+  };
+
+  // The suspended run's container is paused and its slot freed; an approved plan queues it
+  // for a slot again before the approval step resumes
+  const resumeAfterPlanDecision = async (result: RunOutcome): Promise<RunOutcome> => {
+    if (result.status !== 'suspended') return result;
+    const decision = waitForPlanDecision(run.runId);
+    if (!decision) throw new Error('Run suspended without a pending plan review');
+    markRunSuspended(run.runId);
+    await setRunContainersPaused(run.runId, true);
+    releaseRunSlot(run.runId);
+    console.log(`[${label}] Run ${run.runId} suspended until its plan is decided`);
+
+    let review: Awaited<typeof decision>;
+    try {
+      review = await decision;
+    } catch (err) {
+      await setRunContainersPaused(run.runId, false);
+      // A rejection cancels the run, which reports its own status
+      if (!isRunCancelled(run.runId)) {
+        await notifyStepStatus({
+          stepId: 'planApprovalStep',
+          status: 'failed',
+          runId: run.runId,
+          level: 'error',
+          title: getPlanReview(run.runId)?.status === 'expired' ? 'Plan approval expired' : 'Plan approval failed',
+          subtitle: err instanceof Error ? err.message : String(err),
+          projectId: inputData.projectId,
+        });
+      }
+      throw err;
+    }
+
+    const resumeSlot = acquireRunSlot(run.runId);
+    const resumePosition = getQueuePosition(run.runId);
+    markRunQueued(run.runId, resumePosition);
+    if (resumePosition) {
+      console.log(`[${label}] Approved run ${run.runId} queued at position ${resumePosition}`);
+    }
+    await resumeSlot;
+    if (isRunCancelled(run.runId)) throw new Error('Run cancelled before resuming');
+    await setRunContainersPaused(run.runId, false);
+    markRunResumed(run.runId);
+    console.log(`[${label}] Resuming run ${run.runId} with the approved plan`);
+    return resumeAfterPlanDecision(await run.resume({
+      step: 'planApprovalStep',
+      resumeData: { plan: review.plan, edited: review.edited },
+    }));
+  };
+
+  setImmediate(() => {
+    slot
+      .then(() => {
+        if (isRunCancelled(run.runId)) return releaseRun();
+        markRunStarted(run.runId);
+        console.log(`[${label}] Starting run ${run.runId}`);
+        return run.start({ inputData })
+          .then(resumeAfterPlanDecision)
+          .then((result: RunOutcome) => {
+            console.log(`[${label}] Run ${run.runId} completed with status: ${result.status}`);
+            if (result.status === 'success') {
+              finishRun(run.runId, 'completed');
+            } else {
+              const reason = result.error instanceof Error ? result.error.message : (result.error ? String(result.error) : `Workflow ended with status ${result.status}`);
+              finishRun(run.runId, 'failed', redactSecrets(reason));
+            }
+          })
+          .catch((err: unknown) => {
+            const message = redactSecrets(err instanceof Error ? err.message : String(err));
+            console.error(`[${label}] Run ${run.runId} failed: ${message}`);
+            finishRun(run.runId, 'failed', message);
+          })
+          .finally(releaseRun);
+      }, (err: unknown) => {
+        // Rejected while queued (e.g. cancelled before a slot was free); nothing ran, but its state still goes
+        console.log(`[${label}] Run ${run.runId} left the queue: ${err instanceof Error ? err.message : String(err)}`);
+        return releaseRun();
+      })
+      .catch((err: unknown) => {
+        console.error(`[${label}] Cleanup of run ${run.runId} failed: ${err instanceof Error ? err.message : String(err)}`);
+      });
+  });
+
+  return queuePosition;
+}
+
+// GitHub events the webhook receiver acts on; anything else is acknowledged and ignored
+const HANDLED_WEBHOOK_EVENTS = ['push', 'pull_request', 'pull_request_review'];
+// pull_request actions that bring new code to test
+const PULL_REQUEST_RUN_ACTIONS = ['opened', 'synchronize', 'reopened'];
+
+interface WebhookCredentials {
+  installationId?: string;
+  installationToken?: InstallationToken;
+  token?: string;
+  /** Set when the installation token could not be minted. */
+  error?: string;
+}
+
+/**
+ * Credentials for acting on a delivery: an installation token when the delivery names a GitHub App
+ * installation and the app is configured, otherwise the server's own token (GITHUB_PAT).
+ */
+async function resolveWebhookCredentials(installation: { id: number } | undefined): Promise<WebhookCredentials> {
+  const installationId = installation ? String(installation.id) : undefined;
+  if (installationId && isGithubAppConfigured()) {
+    try {
+      const installationToken = await createInstallationToken(installationId);
+      return { installationId, installationToken, token: installationToken.token };
+    } catch (err) {
+      return { installationId, error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+  return { token: await getRunGitToken() };
+}
+
+/**
+ * Start a full pipeline run per subscribed project of a webhook delivery. pull_request runs are
+ * diff-scoped dry runs: they export a patch and comment on the PR instead of opening a bot PR.
+ */
+async function startTriggeredRuns(
+  mastraInstance: typeof mastra,
+  projectIds: string[],
+  trigger: RunTrigger,
+  credentials: WebhookCredentials,
+  contextData: ContextData,
+  diffScope?: DiffScopeInput,
+): Promise<Array<{ projectId: string; runId: string; queuePosition?: number }>> {
+  const runs: Array<{ projectId: string; runId: string; queuePosition?: number }> = [];
+  for (const projectId of projectIds) {
+    const run = await mastraInstance.getWorkflow('fullPipelineWorkflow').createRunAsync();
+    associateRunWithProject(run.runId, projectId);
+    if (credentials.installationId && credentials.installationToken) {
+      setRunCredentials(run.runId, { kind: 'app', installationId: credentials.installationId, token: credentials.installationToken.token, expiresAt: credentials.installationToken.expiresAt });
+    }
+    setRunTrigger(run.runId, trigger);
+    trackRun(run.runId, projectId, 'queued');
+    if (trigger.kind === 'pull_request') markRunDryRun(run.runId);
+    const queuePosition = launchRun(run, `webhook-${trigger.kind}`, { contextData, projectId, diffScope }, () => clearRunTrigger(run.runId));
+    runs.push({ projectId, runId: run.runId, queuePosition });
+  }
+  return runs;
+}
+
 export const mastra = new Mastra({
-  workflows: { dockerSetupWorkflow, contextGatheringWorkflow, testGenerationWorkflow, githubPrWorkflow, coverageAnalysisWorkflow, fullPipelineWorkflow },
+  workflows: { dockerSetupWorkflow, contextGatheringWorkflow, testGenerationWorkflow, githubPrWorkflow, coverageAnalysisWorkflow, reviewFollowUpWorkflow, fullPipelineWorkflow },
   agents: { 
     dockerAgent, 
     contextAgent, 
@@ -53,8 +255,8 @@ export const mastra = new Mastra({
     githubPrAgent,
     codebaseDescriptionAgent,
     testCoverageAgent,
-    // testManagerAgent, // COMMENTED OUT FOR MVP VALIDATION
-    // testCoderAgent    // COMMENTED OUT FOR MVP VALIDATION
+    testManagerAgent,
+    testCoderAgent,
   },
   storage: new LibSQLStore({
     // stores telemetry, evals, ... into memory storage, if it needs to persist, change to file:../mastra.db
@@ -72,54 +274,592 @@ export const mastra = new Mastra({
               ? authHeader.slice(7).trim()
               : undefined;
             const githubAccessToken = headerToken || body.token || body.githubToken || body.github_access_token || body.GITHUB_PAT;
-            const contextData = body.contextData ?? body;
+            const rawInstallationId = body.installationId ?? body.installation_id;
+            const installationId = rawInstallationId !== undefined && rawInstallationId !== null ? String(rawInstallationId).trim() : undefined;
+            // When the whole body doubles as context, drop the token fields so they never reach the container
+            const { token: _token, githubToken: _githubToken, github_access_token: _githubAccessToken, GITHUB_PAT: _githubPat, ...bodyWithoutToken } = body;
+            const contextData = body.contextData ?? bodyWithoutToken;
             const projectId: string = body.projectId || body.projectID || body.project_id;
+            // Dry runs stop after the tests are finalized and export a patch instead of pushing
+            const dryRun = (body.dryRun ?? body.dry_run) === true;
+            // Incremental runs only test what changed in a commit range or pull request
+            const rawDiffScope = body.diffScope ?? (body.baseRef !== undefined || body.prNumber !== undefined
+              ? { baseRef: body.baseRef, headRef: body.headRef, prNumber: body.prNumber }
+              : undefined);
+            const parsedDiffScope = rawDiffScope !== undefined ? DiffScopeInputSchema.safeParse(rawDiffScope) : undefined;
+            if (parsedDiffScope && !parsedDiffScope.success) {
+              return c.json({ error: 'Invalid diffScope', issues: parsedDiffScope.error.issues }, 400);
+            }
+            const diffScope = parsedDiffScope?.data;
+            // Approval-gated runs pause after planning until the plan is approved via /runs/:runId/plan
+            const planApproval = (body.requirePlanApproval ?? body.require_plan_approval) === true;
 
-            if (!githubAccessToken || typeof githubAccessToken !== 'string') {
-              return c.json({ error: 'Missing required GitHub access token in body (token | githubToken | github_access_token | GITHUB_PAT)' }, 400);
+            if (installationId && !isGithubAppConfigured()) {
+              return c.json({ error: 'installationId provided but the GitHub App is not configured (GITHUB_APP_ID, GITHUB_APP_PRIVATE_KEY)' }, 400);
+            }
+
+            if (!installationId && (!githubAccessToken || typeof githubAccessToken !== 'string')) {
+              return c.json({ error: 'Missing git credentials: provide installationId (GitHub App) or an access token for the repository host (Bearer header | token | githubToken | github_access_token | GITHUB_PAT)' }, 400);
             }
 
             if (!projectId || typeof projectId !== 'string') {
               return c.json({ error: 'Missing required projectId in body (projectId | projectID | project_id)' }, 400);
             }
 
-            const credentialsContent = `GITHUB_PAT=${githubAccessToken}\n`;
-
-            const cwd = process.cwd();
-            const primaryPath = path.resolve(cwd, '.docker.credentials');
-            const fallbackPath = path.resolve(cwd, '..', '..', '.docker.credentials');
-
-            try { writeFileSync(primaryPath, credentialsContent, 'utf8'); } catch {}
-            try { writeFileSync(fallbackPath, credentialsContent, 'utf8'); } catch {}
+            // Mint the first installation token up front so a bad installation fails the request, not the run
+            let installationToken: InstallationToken | undefined;
+            if (installationId) {
+              try {
+                installationToken = await createInstallationToken(installationId);
+              } catch (err) {
+                return c.json({ error: redactSecrets(err instanceof Error ? err.message : String(err)) }, 502);
+              }
+            }
 
             const workflow = (c.get('mastra') as typeof mastra).getWorkflow('fullPipelineWorkflow');
             const run = await workflow.createRunAsync();
 
             // Associate run with project (projectId is now required and validated above)
             associateRunWithProject(run.runId, projectId);
+            // Token is kept in memory for this run only; clone/PR steps read it by runId
+            if (installationId && installationToken) {
+              setRunCredentials(run.runId, { kind: 'app', installationId, token: installationToken.token, expiresAt: installationToken.expiresAt });
+            } else {
+              setRunCredentials(run.runId, { kind: 'pat', token: githubAccessToken });
+            }
+            trackRun(run.runId, projectId, 'queued');
+            if (dryRun) markRunDryRun(run.runId);
+            if (planApproval) requirePlanApproval(run.runId);
+            const queuePosition = launchRun(run, 'start-full-pipeline', { contextData, projectId, diffScope });
 
-            // Fire-and-forget with visible logging
-            setImmediate(() => {
-              try {
-                console.log(`[start-full-pipeline] Starting run ${run.runId}`);
-                run.start({ inputData: { contextData, projectId } })
-                  .then((result: { status?: string }) => {
-                    console.log(`[start-full-pipeline] Run ${run.runId} completed with status: ${result.status}`);
-                  })
-                  .catch((err: unknown) => {
-                    console.error(`[start-full-pipeline] Run ${run.runId} failed:`, err);
-                  });
-              } catch (err) {
-                console.error(`[start-full-pipeline] Failed to schedule run ${run.runId}:`, err);
+            return c.json({ message: queuePosition ? 'fullPipelineWorkflow queued' : 'fullPipelineWorkflow started', runId: run.runId, queuePosition, dryRun, requirePlanApproval: planApproval, diffScope, authMode: installationId ? 'app' : 'pat' });
+          } catch (err) {
+            const message = err instanceof Error ? err.message : 'Unknown error';
+            return c.json({ error: message }, 500);
+          }
+        }
+      }),
+      // One receiver for every GitHub event; the review-only path stays for webhooks configured before it
+      ...['/webhooks/github', '/webhooks/github/pull-request-review'].map(path => registerApiRoute(path, {
+        method: 'POST',
+        handler: async (c) => {
+          const deliveryId = c.req.header('x-github-delivery');
+          let claimed = false;
+          // A delivery that could not be handled is given back, so a manual redelivery is handled again
+          const reject = (error: string, status: 502 | 503) => {
+            if (claimed && deliveryId) releaseWebhookDelivery(deliveryId);
+            return c.json({ error: redactSecrets(error) }, status);
+          };
+          try {
+            // The signature covers the raw body, so it is read as text before parsing
+            const rawBody = await c.req.text();
+            if (!isWebhookSecretConfigured()) {
+              return c.json({ error: 'GITHUB_WEBHOOK_SECRET is not configured' }, 503);
+            }
+            if (!verifyWebhookSignature(rawBody, c.req.header('x-hub-signature-256'))) {
+              return c.json({ error: 'Invalid webhook signature' }, 401);
+            }
+            const eventName = c.req.header('x-github-event');
+            if (eventName === 'ping') {
+              return c.json({ message: 'pong' });
+            }
+            if (!eventName || !HANDLED_WEBHOOK_EVENTS.includes(eventName)) {
+              return c.json({ message: `Ignored event: ${eventName}` }, 202);
+            }
+
+            let payload: unknown;
+            try {
+              payload = JSON.parse(rawBody);
+            } catch {
+              return c.json({ error: 'Invalid JSON payload' }, 400);
+            }
+            if (deliveryId) {
+              if (!claimWebhookDelivery(deliveryId)) {
+                return c.json({ message: `Duplicate delivery: ${deliveryId}` }, 202);
               }
+              claimed = true;
+            }
+            const mastraInstance = c.get('mastra') as typeof mastra;
+
+            if (eventName === 'push') {
+              const parsed = GitHubPushEventSchema.safeParse(payload);
+              if (!parsed.success) {
+                return c.json({ error: 'Unexpected push payload', issues: parsed.error.issues }, 400);
+              }
+              const event = parsed.data;
+              const fullName = event.repository.full_name;
+              const projectIds = findSubscribedProjects(fullName, 'push');
+              if (projectIds.length === 0) {
+                return c.json({ message: `Ignored push: no project subscribed to ${fullName}` }, 202);
+              }
+              const defaultBranch = event.repository.default_branch;
+              if (event.deleted || event.ref !== `refs/heads/${defaultBranch}`) {
+                return c.json({ message: `Ignored push to ${event.ref}` }, 202);
+              }
+
+              const credentials = await resolveWebhookCredentials(event.installation);
+              if (credentials.error) {
+                return reject(credentials.error, 502);
+              }
+              if (!credentials.token) {
+                return reject('No GitHub credentials to start a run (GitHub App or GITHUB_PAT)', 503);
+              }
+              const [owner, repo] = fullName.split('/');
+              const ref: RepoRef = { provider: 'github', host: 'github.com', owner, repo };
+              const runs = await startTriggeredRuns(mastraInstance, projectIds, {
+                kind: 'push',
+                deliveryId,
+                ref,
+                branch: defaultBranch,
+                sha: event.after,
+              }, credentials, { fullName, defaultBranch });
+              return c.json({ message: `Started ${runs.length} run(s) for push to ${defaultBranch}`, runs }, 202);
+            }
+
+            if (eventName === 'pull_request') {
+              const parsed = GitHubPullRequestEventSchema.safeParse(payload);
+              if (!parsed.success) {
+                return c.json({ error: 'Unexpected pull_request payload', issues: parsed.error.issues }, 400);
+              }
+              const event = parsed.data;
+              const pr = event.pull_request;
+              const fullName = event.repository.full_name;
+              const projectIds = findSubscribedProjects(fullName, 'pull_request');
+              if (projectIds.length === 0) {
+                return c.json({ message: `Ignored pull_request: no project subscribed to ${fullName}` }, 202);
+              }
+              if (!PULL_REQUEST_RUN_ACTIONS.includes(event.action) || pr.state !== 'open') {
+                return c.json({ message: `Ignored pull_request action: ${event.action}` }, 202);
+              }
+              // Fork heads are not in this repository, and their code is not ours to run with our credentials
+              if (pr.head.repo?.full_name.toLowerCase() !== fullName.toLowerCase()) {
+                return c.json({ message: `Ignored pull_request #${pr.number} from a fork` }, 202);
+              }
+              if (pr.head.ref.startsWith('mastra/')) {
+                return c.json({ message: `Ignored bot pull request #${pr.number}` }, 202);
+              }
+
+              const credentials = await resolveWebhookCredentials(event.installation);
+              if (credentials.error) {
+                return reject(credentials.error, 502);
+              }
+              if (!credentials.token) {
+                return reject('No GitHub credentials to start a run (GitHub App or GITHUB_PAT)', 503);
+              }
+              const [owner, repo] = fullName.split('/');
+              const ref: RepoRef = { provider: 'github', host: 'github.com', owner, repo };
+              const changedFiles = await listPullRequestSourceFiles(ref, credentials.token, pr.number);
+              if (changedFiles.length === 0) {
+                return c.json({ message: `No changed source files to test in #${pr.number}` }, 202);
+              }
+              // The run works on the PR head and reports on the PR; no bot branch or PR of its own
+              const runs = await startTriggeredRuns(mastraInstance, projectIds, {
+                kind: 'pull_request',
+                deliveryId,
+                ref,
+                number: pr.number,
+                headRef: pr.head.ref,
+                headSha: pr.head.sha,
+                baseRef: pr.base.ref,
+                changedFiles,
+              }, credentials, { fullName, defaultBranch: pr.head.ref }, { prNumber: pr.number, baseRef: pr.base.ref, headRef: pr.head.ref });
+              return c.json({ message: `Started ${runs.length} run(s) for #${pr.number}`, runs, changedFiles: changedFiles.length }, 202);
+            }
+
+            const parsed = GitHubPullRequestReviewEventSchema.safeParse(payload);
+            if (!parsed.success) {
+              return c.json({ error: 'Unexpected pull_request_review payload', issues: parsed.error.issues }, 400);
+            }
+            const event = parsed.data;
+            if (event.action !== 'submitted' || event.pull_request.state !== 'open') {
+              return c.json({ message: `Ignored review action: ${event.action}` }, 202);
+            }
+            if (event.review.user.type === 'Bot' || event.review.user.login.endsWith('[bot]')) {
+              return c.json({ message: 'Ignored review by a bot' }, 202);
+            }
+
+            // PRs this server opened map to their project; after a restart a bot branch plus ?projectId= works too
+            const owner = event.repository.owner.login;
+            const repo = event.repository.name;
+            const prNumber = event.pull_request.number;
+            const queryProjectId = c.req.query('projectId');
+            const projectId = getBotPullRequestProject(owner, repo, prNumber)
+              ?? (event.pull_request.head.ref.startsWith('mastra/') && queryProjectId ? queryProjectId : undefined);
+            if (!projectId) {
+              return c.json({ message: `Ignored review: #${prNumber} is not a bot pull request` }, 202);
+            }
+
+            const credentials = await resolveWebhookCredentials(event.installation);
+            if (credentials.error) {
+              return reject(credentials.error, 502);
+            }
+            const token = credentials.token;
+            if (!token) {
+              return reject('No GitHub credentials to act on the review (GitHub App or GITHUB_PAT)', 503);
+            }
+
+            const ref: RepoRef = { provider: 'github', host: 'github.com', owner, repo };
+            const feedback = toReviewFeedback(ref, await listReviewComments(ref, token, prNumber), event.review.id);
+            if (feedback.length === 0) {
+              return c.json({ message: 'No review comments to act on' }, 202);
+            }
+            // Claimed up front so redeliveries and overlapping reviews do not start a second run for them
+            markReviewCommentsHandled(owner, repo, feedback.map(item => item.commentId));
+
+            const workflow = mastraInstance.getWorkflow('reviewFollowUpWorkflow');
+            const run = await workflow.createRunAsync();
+            associateRunWithProject(run.runId, projectId);
+            if (credentials.installationId && credentials.installationToken) {
+              setRunCredentials(run.runId, { kind: 'app', installationId: credentials.installationId, token: credentials.installationToken.token, expiresAt: credentials.installationToken.expiresAt });
+            }
+            setReviewFollowUp(run.runId, {
+              owner,
+              repo,
+              prNumber,
+              branchName: event.pull_request.head.ref,
+              reviewId: event.review.id,
+              feedback,
             });
+            trackRun(run.runId, projectId, 'queued');
+            const contextData = { fullName: `${owner}/${repo}`, defaultBranch: event.pull_request.head.ref };
+            const queuePosition = launchRun(run, 'review-followup', { contextData, projectId }, () => clearReviewFollowUp(run.runId));
 
-            return c.json({ message: 'fullPipelineWorkflow started', runId: run.runId });
+            return c.json({ message: queuePosition ? 'reviewFollowUpWorkflow queued' : 'reviewFollowUpWorkflow started', runId: run.runId, queuePosition, comments: feedback.length }, 202);
+          } catch (err) {
+            if (claimed && deliveryId) releaseWebhookDelivery(deliveryId);
+            const message = err instanceof Error ? err.message : 'Unknown error';
+            return c.json({ error: redactSecrets(message) }, 500);
+          }
+        }
+      })),
+      registerApiRoute('/runs/:runId', {
+        method: 'GET',
+        handler: async (c) => {
+          const runId = c.req.param('runId');
+          const record = runId ? getRun(runId) : undefined;
+          if (!record) {
+            return c.json({ error: `Run not found: ${runId}` }, 404);
+          }
+          if (record.status === 'queued' || record.status === 'suspended') {
+            markRunQueued(record.runId, getQueuePosition(record.runId));
+          }
+          return c.json(record);
+        }
+      }),
+      registerApiRoute('/runs/:runId/patch', {
+        method: 'GET',
+        handler: async (c) => {
+          const runId = c.req.param('runId');
+          const stored = getRunPatch(runId);
+          if (!stored) {
+            const record = runId ? getRun(runId) : undefined;
+            const reason = !record ? `Run not found: ${runId}` : record.dryRun ? `No patch exported yet for run ${runId}` : `Run ${runId} is not a dry run`;
+            return c.json({ error: reason }, 404);
+          }
+          // format-patch by default (git am); ?format=diff for a plain unified diff (git apply)
+          const asDiff = c.req.query('format') === 'diff';
+          return c.body(asDiff ? stored.diff : stored.patch, 200, {
+            'Content-Type': 'text/x-patch; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${runId}.${asDiff ? 'diff' : 'patch'}"`,
+          });
+        }
+      }),
+      registerApiRoute('/runs/:runId/patch/manifest', {
+        method: 'GET',
+        handler: async (c) => {
+          const runId = c.req.param('runId');
+          const stored = getRunPatch(runId);
+          if (!stored) {
+            return c.json({ error: `No patch for run ${runId}` }, 404);
+          }
+          return c.json(stored.manifest);
+        }
+      }),
+      registerApiRoute('/runs/:runId/cancel', {
+        method: 'POST',
+        handler: async (c) => {
+          try {
+            const runId = c.req.param('runId');
+            const record = runId ? getRun(runId) : undefined;
+            if (!runId || !record) {
+              return c.json({ error: `Run not found: ${runId}` }, 404);
+            }
+            const body = await c.req.json().catch(() => ({}));
+            const reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : undefined;
+            const result = await cancelRun(runId, reason);
+            if (!result.cancelled) {
+              return c.json({ error: result.reason, status: record.status }, 409);
+            }
+            console.log(`[cancel-run] Run ${runId} cancelled (container removed: ${result.containerRemoved}, processes killed: ${result.killedProcesses})`);
+            return c.json({ message: 'Run cancelled', runId, ...result });
           } catch (err) {
             const message = err instanceof Error ? err.message : 'Unknown error';
             return c.json({ error: message }, 500);
           }
         }
+      }),
+      registerApiRoute('/runs/:runId/plan', {
+        method: 'GET',
+        handler: async (c) => {
+          const runId = c.req.param('runId');
+          const review = getPlanReview(runId);
+          if (!review) {
+            return c.json({ error: `No plan review for run ${runId}` }, 404);
+          }
+          return c.json(review);
+        }
+      }),
+      registerApiRoute('/runs/:runId/plan', {
+        method: 'PUT',
+        handler: async (c) => {
+          const runId = c.req.param('runId');
+          const body = await c.req.json().catch(() => undefined);
+          const parsed = PlanEditSchema.safeParse(body);
+          if (!parsed.success) {
+            return c.json({ error: 'Invalid plan edit', issues: parsed.error.issues }, 400);
+          }
+          const result = editPlan(runId, parsed.data);
+          if (!result.ok) {
+            return c.json({ error: result.reason }, getPlanReview(runId) ? 409 : 404);
+          }
+          return c.json(result.review);
+        }
+      }),
+      registerApiRoute('/runs/:runId/plan/approve', {
+        method: 'POST',
+        handler: async (c) => {
+          const runId = c.req.param('runId');
+          const body = await c.req.json().catch(() => ({}));
+          const parsed = PlanDecisionSchema.safeParse(body);
+          if (!parsed.success) {
+            return c.json({ error: 'Invalid plan approval', issues: parsed.error.issues }, 400);
+          }
+          const result = approvePlan(runId, parsed.data);
+          if (!result.ok) {
+            return c.json({ error: result.reason }, getPlanReview(runId) ? 409 : 404);
+          }
+          console.log(`[plan-approval] Plan of run ${runId} approved${result.review.edited ? ' with edits' : ''}`);
+          return c.json({ message: 'Plan approved', ...result.review });
+        }
+      }),
+      registerApiRoute('/runs/:runId/plan/reject', {
+        method: 'POST',
+        handler: async (c) => {
+          try {
+            const runId = c.req.param('runId');
+            const body = await c.req.json().catch(() => ({}));
+            const parsed = PlanDecisionSchema.pick({ reviewer: true, comment: true }).safeParse(body);
+            if (!parsed.success) {
+              return c.json({ error: 'Invalid plan rejection', issues: parsed.error.issues }, 400);
+            }
+            const result = rejectPlan(runId, parsed.data);
+            if (!result.ok) {
+              return c.json({ error: result.reason }, getPlanReview(runId) ? 409 : 404);
+            }
+            // Cancelling settles the suspended run's decision, which releases its state and container
+            const cancelled = await cancelRun(runId, result.reason);
+            console.log(`[plan-approval] Plan of run ${runId} rejected (run cancelled: ${cancelled.cancelled})`);
+            return c.json({ message: 'Plan rejected', ...result.review, run: cancelled });
+          } catch (err) {
+            const message = err instanceof Error ? err.message : 'Unknown error';
+            return c.json({ error: message }, 500);
+          }
+        }
+      }),
+      registerApiRoute('/projects/:projectId/runs', {
+        method: 'GET',
+        handler: async (c) => {
+          const projectId = c.req.param('projectId');
+          if (!projectId) {
+            return c.json({ error: 'Missing projectId' }, 400);
+          }
+          return c.json({ projectId, runs: listProjectRuns(projectId) });
+        }
+      }),
+      registerApiRoute('/projects/:projectId/sandbox-policy', {
+        method: 'GET',
+        handler: async (c) => {
+          const projectId = c.req.param('projectId');
+          if (!projectId) {
+            return c.json({ error: 'Missing projectId' }, 400);
+          }
+          return c.json({ projectId, policy: getProjectSandboxPolicy(projectId) });
+        }
+      }),
+      registerApiRoute('/projects/:projectId/sandbox-policy', {
+        method: 'PUT',
+        handler: async (c) => {
+          const projectId = c.req.param('projectId');
+          if (!projectId) {
+            return c.json({ error: 'Missing projectId' }, 400);
+          }
+          const body = await c.req.json().catch(() => ({}));
+          const parsed = SandboxPolicyOverrideSchema.safeParse(body.policy ?? body);
+          if (!parsed.success) {
+            return c.json({ error: 'Invalid sandbox policy', issues: parsed.error.issues }, 400);
+          }
+          // Applies to containers created after this call; running containers keep their policy
+          return c.json({ projectId, policy: setProjectSandboxPolicy(projectId, parsed.data) });
+        }
+      }),
+      registerApiRoute('/projects/:projectId/sandbox-policy', {
+        method: 'DELETE',
+        handler: async (c) => {
+          const projectId = c.req.param('projectId');
+          if (!projectId) {
+            return c.json({ error: 'Missing projectId' }, 400);
+          }
+          clearProjectSandboxPolicy(projectId);
+          return c.json({ projectId, policy: getProjectSandboxPolicy(projectId) });
+        }
+      }),
+      registerApiRoute('/projects/:projectId/generation-budget', {
+        method: 'GET',
+        handler: async (c) => {
+          const projectId = c.req.param('projectId');
+          if (!projectId) {
+            return c.json({ error: 'Missing projectId' }, 400);
+          }
+          return c.json({ projectId, budget: getProjectGenerationBudget(projectId) });
+        }
+      }),
+      registerApiRoute('/projects/:projectId/generation-budget', {
+        method: 'PUT',
+        handler: async (c) => {
+          const projectId = c.req.param('projectId');
+          if (!projectId) {
+            return c.json({ error: 'Missing projectId' }, 400);
+          }
+          const body = await c.req.json().catch(() => ({}));
+          const parsed = GenerationBudgetOverrideSchema.safeParse(body.budget ?? body);
+          if (!parsed.success) {
+            return c.json({ error: 'Invalid generation budget', issues: parsed.error.issues }, 400);
+          }
+          // Read when a run plans and generates, so it applies to runs that have not reached generation yet
+          return c.json({ projectId, budget: setProjectGenerationBudget(projectId, parsed.data) });
+        }
+      }),
+      registerApiRoute('/projects/:projectId/generation-budget', {
+        method: 'DELETE',
+        handler: async (c) => {
+          const projectId = c.req.param('projectId');
+          if (!projectId) {
+            return c.json({ error: 'Missing projectId' }, 400);
+          }
+          clearProjectGenerationBudget(projectId);
+          return c.json({ projectId, budget: getProjectGenerationBudget(projectId) });
+        }
+      }),
+      registerApiRoute('/projects/:projectId/pr-policy', {
+        method: 'GET',
+        handler: async (c) => {
+          const projectId = c.req.param('projectId');
+          if (!projectId) {
+            return c.json({ error: 'Missing projectId' }, 400);
+          }
+          return c.json({ projectId, policy: getProjectPrPolicy(projectId) });
+        }
+      }),
+      registerApiRoute('/projects/:projectId/pr-policy', {
+        method: 'PUT',
+        handler: async (c) => {
+          const projectId = c.req.param('projectId');
+          if (!projectId) {
+            return c.json({ error: 'Missing projectId' }, 400);
+          }
+          const body = await c.req.json().catch(() => ({}));
+          const parsed = PrPolicyOverrideSchema.safeParse(body.policy ?? body);
+          if (!parsed.success) {
+            return c.json({ error: 'Invalid PR policy', issues: parsed.error.issues }, 400);
+          }
+          // Read when a run prepares its commit, so it applies to runs that have not reached the PR phase yet
+          return c.json({ projectId, policy: setProjectPrPolicy(projectId, parsed.data) });
+        }
+      }),
+      registerApiRoute('/projects/:projectId/pr-policy', {
+        method: 'DELETE',
+        handler: async (c) => {
+          const projectId = c.req.param('projectId');
+          if (!projectId) {
+            return c.json({ error: 'Missing projectId' }, 400);
+          }
+          clearProjectPrPolicy(projectId);
+          return c.json({ projectId, policy: getProjectPrPolicy(projectId) });
+        }
+      }),
+      registerApiRoute('/projects/:projectId/pr-template', {
+        method: 'GET',
+        handler: async (c) => {
+          const projectId = c.req.param('projectId');
+          if (!projectId) {
+            return c.json({ error: 'Missing projectId' }, 400);
+          }
+          return c.json({ projectId, template: getProjectPrTemplate(projectId) });
+        }
+      }),
+      registerApiRoute('/projects/:projectId/pr-template', {
+        method: 'PUT',
+        handler: async (c) => {
+          const projectId = c.req.param('projectId');
+          if (!projectId) {
+            return c.json({ error: 'Missing projectId' }, 400);
+          }
+          const body = await c.req.json().catch(() => ({}));
+          const parsed = PrTemplateOverrideSchema.safeParse(body.template ?? body);
+          if (!parsed.success) {
+            return c.json({ error: 'Invalid PR template', issues: parsed.error.issues }, 400);
+          }
+          // Rendered when a run opens or updates its PR, so it applies to runs that have not got there yet
+          return c.json({ projectId, template: setProjectPrTemplate(projectId, parsed.data) });
+        }
+      }),
+      registerApiRoute('/projects/:projectId/pr-template', {
+        method: 'DELETE',
+        handler: async (c) => {
+          const projectId = c.req.param('projectId');
+          if (!projectId) {
+            return c.json({ error: 'Missing projectId' }, 400);
+          }
+          clearProjectPrTemplate(projectId);
+          return c.json({ projectId, template: getProjectPrTemplate(projectId) });
+        }
+      }),
+      registerApiRoute('/projects/:projectId/webhook', {
+        method: 'GET',
+        handler: async (c) => {
+          const projectId = c.req.param('projectId');
+          if (!projectId) {
+            return c.json({ error: 'Missing projectId' }, 400);
+          }
+          return c.json({ projectId, subscription: getProjectWebhookSubscription(projectId) ?? null });
+        }
+      }),
+      registerApiRoute('/projects/:projectId/webhook', {
+        method: 'PUT',
+        handler: async (c) => {
+          const projectId = c.req.param('projectId');
+          if (!projectId) {
+            return c.json({ error: 'Missing projectId' }, 400);
+          }
+          const body = await c.req.json().catch(() => ({}));
+          const parsed = WebhookSubscriptionSchema.safeParse(body.subscription ?? body);
+          if (!parsed.success) {
+            return c.json({ error: 'Invalid webhook subscription', issues: parsed.error.issues }, 400);
+          }
+          // Deliveries from this repository start runs of the project from now on
+          return c.json({ projectId, subscription: setProjectWebhookSubscription(projectId, parsed.data) });
+        }
+      }),
+      registerApiRoute('/projects/:projectId/webhook', {
+        method: 'DELETE',
+        handler: async (c) => {
+          const projectId = c.req.param('projectId');
+          if (!projectId) {
+            return c.json({ error: 'Missing projectId' }, 400);
+          }
+          clearProjectWebhookSubscription(projectId);
+          return c.json({ projectId, subscription: null });
+        }
       })
     ]
   },
@@ -1,9 +1,11 @@
 import z from "zod";
+import { recordRunEvent } from "./run-tracker";
+import { redactSecrets, redactSecretsDeep } from "./run-credentials";
 
 export const AlertLevelSchema = z.enum(['debug', 'info', 'success', 'warning', 'error']);
 export type AlertLevel = z.infer<typeof AlertLevelSchema>;
 
-export const AlertStatusSchema = z.enum(['starting', 'in_progress', 'completed', 'failed']);
+export const AlertStatusSchema = z.enum(['starting', 'in_progress', 'completed', 'failed', 'cancelled']);
 export type AlertStatus = z.infer<typeof AlertStatusSchema>;
 
 // Rich alert payload describing workflow and step lifecycle.
@@ -21,7 +23,7 @@ export const AlertEventSchema = z.object({
     projectId: z.string().optional(),
     runId: z.string().optional(),
     stepId: z.string().optional(),
-    status: AlertStatusSchema.optional(), // starting | in_progress | completed | failed
+    status: AlertStatusSchema.optional(), // starting | in_progress | completed | failed | cancelled
 
     // Operational context
     containerId: z.string().optional(),
@@ -51,7 +53,16 @@ function getAlertsApiUrl(): string {
     return `${baseUrl}/api/alerts`;
 }
 
-export async function sendAlertEvent(payload: AlertEventPayload): Promise<void> {
+export async function sendAlertEvent(rawPayload: AlertEventPayload): Promise<void> {
+    // Error messages and metadata can carry command lines or remote URLs; never forward tokens
+    const payload: AlertEventPayload = {
+        ...rawPayload,
+        title: redactSecrets(rawPayload.title),
+        subtitle: redactSecrets(rawPayload.subtitle),
+        metadata: rawPayload.metadata ? redactSecretsDeep(rawPayload.metadata) : undefined,
+    };
+    // Keep the local run registry in sync regardless of backend availability
+    try { recordRunEvent(payload); } catch { /* ignore */ }
     try {
         // Validate before sending to ensure consistent contract
         const safe = AlertEventSchema.safeParse(payload);
@@ -117,7 +128,7 @@ export async function notifyStepStatus(params: {
     await sendAlertEvent({
         title: title || `[${stepId}] ${status}`,
         subtitle: subtitle || `Step ${stepId} is ${status}`,
-        level: level || (status === 'failed' ? 'error' : status === 'completed' ? 'success' : 'info'),
+        level: level || (status === 'failed' ? 'error' : status === 'cancelled' ? 'warning' : status === 'completed' ? 'success' : 'info'),
         source: 'mastra-agent',
         projectId,
         runId,
@@ -252,6 +263,11 @@ export function formatFriendlyAlert(title?: string, subtitle?: string): string {
         return join('Finalized', rawSubtitle || undefined);
     }
 
+    // ----- Cancellation -----
+    if (/^pipeline cancelled$/i.test(rawTitle)) {
+        return join('Pipeline cancelled', rawSubtitle || undefined);
+    }
+
     // ----- Generic failures -----
     if (/failed$/i.test(rawTitle)) {
         const base = rawTitle.replace(/\s*failed$/i, '').trim();
@@ -1,5 +1,6 @@
 import { createTool } from "@mastra/core";
 import z from "zod";
+import { runSandboxedCommand } from "./sandbox-policy";
 
 export const cliToolMetrics = {
     callCount: 0,
@@ -23,7 +24,7 @@ export const cliTool = createTool({
         cliToolMetrics.callCount += 1;
 
         const { exec } = await import("child_process");
-        return await new Promise<string>((resolve, reject) => {
+        const run = () => new Promise<string>((resolve, reject) => {
             exec(cmd, (error, stdout, stderr) => {
                 if (error) {
                     reject(new Error(stderr || error.message));
@@ -32,5 +33,9 @@ export const cliTool = createTool({
                 }
             });
         });
+
+        // Host commands that reach into a run container follow its sandbox network policy
+        const dockerExecMatch = cmd.match(/docker\s+exec\s+(?:-\S+\s+)*([A-Za-z0-9_.-]+)\s+([\s\S]*)/);
+        return dockerExecMatch ? await runSandboxedCommand(dockerExecMatch[1], dockerExecMatch[2], run) : await run();
     },
 });
@@ -1,6 +1,7 @@
 import { createTool } from "@mastra/core";
 import z from "zod";
 import { cliToolMetrics } from "./cli-tool";
+import { buildRunnerInstallScript, findTestFramework, getTestFrameworkProfile } from "./test-frameworks";
 
 function sh(cmd: string): Promise<{ stdout: string; stderr: string }>{
     return new Promise((resolve, reject) => {
@@ -53,16 +54,15 @@ export const coverageDetectionTool = createTool({
             const { stdout } = await sh(`docker exec ${containerId} bash -lc "cd ${shellEscape(repoPath)} && test -f package.json && echo YES || echo NO"`);
             if (stdout.trim() === 'YES') {
                 language = 'node';
-                // Look for vitest or jest
-                const { stdout: whichFw } = await sh(`docker exec ${containerId} bash -lc "cd ${shellEscape(repoPath)} && node -e \"try{const p=require('./package.json');const d=p.devDependencies||{};const dp=p.dependencies||{};if(d['vitest']||dp['vitest']){console.log('vitest')}else if(d['jest']||dp['jest']){console.log('jest')}else{console.log('unknown')}}catch(e){console.log('unknown')}\""`);
-                framework = whichFw.trim() || 'unknown';
+                // Same detection as test generation: runner config, dependencies, test script
+                const detected = await findTestFramework(containerId, repoPath);
+                framework = detected?.framework ?? 'unknown';
                 // Prefer npm ci when lockfile exists
                 const { stdout: hasLock } = await sh(`docker exec ${containerId} bash -lc "cd ${shellEscape(repoPath)} && test -f package-lock.json && echo YES || echo NO"`);
                 installCmd = hasLock.trim() === 'YES' ? 'npm ci --no-audit --no-fund' : 'npm install --no-audit --no-fund';
-                if (framework === 'vitest') {
-                    coverageCmd = 'npx -y vitest run --coverage';
-                } else if (framework === 'jest') {
-                    coverageCmd = 'npx -y jest --coverage --ci';
+                if (detected) {
+                    installCmd = `${installCmd} && ${buildRunnerInstallScript(detected)}`;
+                    coverageCmd = getTestFrameworkProfile(detected.framework).coverageCommand([], detected);
                 } else {
                     // Check for script
                     try {
@@ -79,15 +79,17 @@ export const coverageDetectionTool = createTool({
             }
         } catch {}
 
-        // Python fallback detection
+        // Go, Rust, JVM and Python detection: go test on go.mod modules, cargo llvm-cov on crates, JUnit
+        // with JaCoCo through Maven or Gradle, pytest in a virtualenv; same setup as the test runner
         if (!coverageCmd) {
             try {
-                const { stdout: hasPy } = await sh(`docker exec ${containerId} bash -lc "cd ${shellEscape(repoPath)} && (test -f pytest.ini || test -f pyproject.toml || test -f requirements.txt) && echo YES || echo NO"`);
-                if (hasPy.trim() === 'YES') {
-                    language = language === 'unknown' ? 'python' : language;
-                    framework = 'pytest';
-                    installCmd = 'pip3 install --no-input --quiet pytest pytest-cov';
-                    coverageCmd = 'pytest -q --maxfail=1 --disable-warnings --cov=. --cov-report=term-missing --cov-report=json:coverage/coverage.json';
+                const detected = await findTestFramework(containerId, repoPath);
+                const languages: Record<string, string> = { gotest: 'go', cargo: 'rust', junit: 'java', pytest: 'python' };
+                if (detected && detected.framework in languages) {
+                    language = language === 'unknown' ? languages[detected.framework] : language;
+                    framework = detected.framework;
+                    installCmd = buildRunnerInstallScript(detected);
+                    coverageCmd = getTestFrameworkProfile(detected.framework).coverageCommand([], detected);
                 }
             } catch {}
         }
@@ -1,6 +1,8 @@
 import { createTool } from "@mastra/core";
 import z from "zod";
 import { cliToolMetrics } from "./cli-tool";
+import { getTestFrameworkProfile } from "./test-frameworks";
+import { TestFrameworkSchema } from "../types";
 
 function parseCoverageFromText(text: string): number | null {
     try {
@@ -58,7 +60,18 @@ export const coverageParseTool = createTool({
             });
         }
 
-        // Try JSON summaries first
+        // Reports the pipeline's own coverage commands write outside the checkout (pytest-cov, go test -coverprofile)
+        for (const framework of TestFrameworkSchema.options) {
+            const report = getTestFrameworkProfile(framework).coverageReport;
+            if (!report) continue;
+            try {
+                const raw = await sh(`docker exec ${containerId} bash -lc "cat ${JSON.stringify(report.file)} 2>/dev/null || true"`);
+                const measured = raw.trim() ? report.parse(raw, { framework }) : null;
+                if (measured) return measured.coverage;
+            } catch {}
+        }
+
+        // Then JSON summaries in the checkout
         const candidates = [
             `${repoPath}/coverage/coverage-summary.json`,
             `${repoPath}/coverage/coverage-final.json`,
@@ -2,16 +2,19 @@ import { createTool } from "@mastra/core";
 import z from "zod";
 import { cliToolMetrics } from "./cli-tool";
 import { exec } from "child_process";
+import { trackChildProcess } from "./run-control";
+import { withSandboxPhase } from "./sandbox-policy";
 
 function sh(cmd: string): Promise<{ stdout: string; stderr: string }> {
     return new Promise((resolve) => {
-        exec(cmd, { maxBuffer: 1024 * 1024 * 20 }, (error, stdout, stderr) => {
+        const child = exec(cmd, { maxBuffer: 1024 * 1024 * 20 }, (error, stdout, stderr) => {
             if (error) {
                 resolve({ stdout: stdout + (stderr || ''), stderr: stderr || error.message });
             } else {
                 resolve({ stdout, stderr });
             }
         });
+        trackChildProcess(child, cmd);
     });
 }
 
@@ -45,10 +48,10 @@ export const coverageRunnerTool = createTool({
         cliToolMetrics.callCount += 1;
 
         if (install && typeof install === 'string' && install.trim()) {
-            await sh(`docker exec ${containerId} bash -lc "cd ${shellEscape(repoPath)} && ${install}"`).catch(() => {});
+            await withSandboxPhase(containerId, "install", () => sh(`docker exec ${containerId} bash -lc ${shellEscape(`cd ${shellEscape(repoPath)} && ${install}`)}`)).catch(() => {});
         }
 
-        const { stdout, stderr } = await sh(`docker exec ${containerId} bash -lc "cd ${shellEscape(repoPath)} && ${run} 2>&1 || true"`);
+        const { stdout, stderr } = await withSandboxPhase(containerId, "test", () => sh(`docker exec ${containerId} bash -lc ${shellEscape(`cd ${shellEscape(repoPath)} && ${run} 2>&1 || true`)}`));
         return { stdout, stderr };
     },
 });
@@ -0,0 +1,212 @@
+import { exec } from "child_process";
+import { trackChildProcess } from "./run-control";
+import { getGitCredentialExec, getRunGitToken, redactSecrets } from "./run-credentials";
+import { getGitProvider } from "./git-providers";
+import type { ChangedLineRange, ChangedSourceFile, DiffScope, DiffScopeInput, RepoRef } from "../types";
+
+// Incremental runs: the commit range a run was asked to cover is resolved in the run's container
+// right after the clone, the head is checked out, and planning only looks at the source files
+// (and functions) the range touched. Steps read the resolved scope by runId.
+
+const DIFF_MAX_BUFFER = 32 * 1024 * 1024;
+
+const SOURCE_FILE_PATTERN = /\.(ts|tsx|js|jsx|mjs|cjs|mts|cts|py|go|java|rs)$/;
+const TEST_FILE_PATTERN = /(\.(test|spec)\.[^/]+$)|(^|\/)(__tests__|__mocks__)\/|(^|\/)(test_[^/]*|[^/]*_test|conftest)\.py$|_test\.go$|(^|\/)src\/test\/|Tests?\.java$|(^|\/)(tests|benches)\/.+\.rs$/;
+const VENDORED_PATTERN = /(^|\/)(vendor|testdata|node_modules|target)\//;
+
+// Declarations on added lines and in hunk headers, in the order they are tried
+const DECLARATION_PATTERNS = [
+    /^\s*(?:async\s+)?def\s+([A-Za-z_]\w*)\s*\(/,
+    /^\s*func\s+(?:\([^)]*\)\s*)?([A-Za-z_]\w*)\s*[[(]/,
+    /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:(?:const|async|unsafe)\s+)*(?:extern\s+"[^"]*"\s+)?fn\s+([A-Za-z_]\w*)/,
+    /\bfunction\s*\*?\s*([A-Za-z_$][\w$]*)\s*[<(]/,
+    /\bclass\s+([A-Za-z_$][\w$]*)/,
+    // Java methods: at least one modifier, then the (possibly generic) return type
+    /^\s*(?:(?:public|private|protected|static|final|abstract|synchronized|default)\s+)+(?:<[^>]+>\s+)?[\w.$<>[\],? ]+\s+([A-Za-z_$][\w$]*)\s*\(/,
+    /\b(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>)/,
+    /^\s*(?:(?:public|private|protected|static|async|override|get|set)\s+)*([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\([^)]*\)\s*(?::\s*[^{;]+)?\{/,
+];
+const NOT_DECLARATIONS = new Set(["if", "for", "while", "switch", "catch", "with", "return", "function", "typeof", "new"]);
+
+function sh(cmd: string, env?: NodeJS.ProcessEnv): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const child = exec(cmd, { env, maxBuffer: DIFF_MAX_BUFFER }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(redactSecrets(stderr || error.message)));
+            } else {
+                resolve(stdout);
+            }
+        });
+        trackChildProcess(child, cmd);
+    });
+}
+
+function shellEscape(str: string): string {
+    return "'" + String(str).replace(/'/g, "'\"'\"'") + "'";
+}
+
+/**
+ * Source files tests are generated for: no declarations, tests, mocks or vendored code.
+ */
+export function isTestableSourceFile(file: string): boolean {
+    return SOURCE_FILE_PATTERN.test(file) && !file.endsWith('.d.ts') && !TEST_FILE_PATTERN.test(file) && !VENDORED_PATTERN.test(file);
+}
+
+// =============================================================================
+// RUN SCOPES
+// =============================================================================
+
+const scopes = new Map<string, DiffScope>();
+
+export function setRunDiffScope(runId: string, scope: DiffScope): void {
+    scopes.set(runId, scope);
+}
+
+export function getRunDiffScope(runId: string | undefined): DiffScope | undefined {
+    return runId ? scopes.get(runId) : undefined;
+}
+
+export function clearRunDiffScope(runId: string): void {
+    scopes.delete(runId);
+}
+
+// =============================================================================
+// RESOLUTION
+// =============================================================================
+
+type Git = (args: string) => Promise<string>;
+
+/**
+ * Commit a ref names: a branch of origin, a local ref or commit, or else whatever fetching it gives.
+ */
+async function resolveCommit(git: Git, refName: string): Promise<{ sha: string; branch?: string }> {
+    const asBranch = await git(`rev-parse --verify -q ${shellEscape(`refs/remotes/origin/${refName}^{commit}`)}`).catch(() => '');
+    if (asBranch.trim()) return { sha: asBranch.trim(), branch: refName };
+    const local = await git(`rev-parse --verify -q ${shellEscape(`${refName}^{commit}`)}`).catch(() => '');
+    if (local.trim()) return { sha: local.trim() };
+    try {
+        await git(`fetch -q origin ${shellEscape(refName)}`);
+        return { sha: (await git('rev-parse FETCH_HEAD')).trim() };
+    } catch (err) {
+        throw new Error(`Cannot resolve ${refName}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+}
+
+function declaredName(line: string): string | undefined {
+    for (const pattern of DECLARATION_PATTERNS) {
+        const name = pattern.exec(line)?.[1];
+        if (name && !NOT_DECLARATIONS.has(name)) return name;
+    }
+    return undefined;
+}
+
+/**
+ * Per-file changed ranges and touched declarations from `git diff -U0` output.
+ */
+function parseZeroContextDiff(diff: string): Map<string, { ranges: ChangedLineRange[]; functions: Set<string> }> {
+    const files = new Map<string, { ranges: ChangedLineRange[]; functions: Set<string> }>();
+    let current: { ranges: ChangedLineRange[]; functions: Set<string> } | undefined;
+    for (const line of diff.split('\n')) {
+        if (line.startsWith('+++ ')) {
+            const target = line.substring(4).trim();
+            current = target === '/dev/null' ? undefined : { ranges: [], functions: new Set() };
+            if (current) files.set(target.replace(/^b\//, ''), current);
+            continue;
+        }
+        if (!current) continue;
+        const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@(.*)$/.exec(line);
+        if (hunk) {
+            const start = Number(hunk[1]);
+            const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+            current.ranges.push(count === 0 ? { start: Math.max(start, 1), end: Math.max(start, 1) } : { start, end: start + count - 1 });
+            // The hunk header names the enclosing declaration when git can tell
+            const enclosing = declaredName(hunk[3]);
+            if (enclosing) current.functions.add(enclosing);
+            continue;
+        }
+        if (line.startsWith('+')) {
+            const declared = declaredName(line.substring(1));
+            if (declared) current.functions.add(declared);
+        }
+    }
+    return files;
+}
+
+/**
+ * Resolve a requested commit range in the container: look up the PR's branches when only a number
+ * is given, check out the head, and collect the source files changed since the merge base.
+ */
+export async function resolveDiffScope(containerId: string, repoPath: string, request: DiffScopeInput, runId: string | undefined, ref: RepoRef): Promise<DiffScope> {
+    const credentials = await getGitCredentialExec(runId, ref);
+    const git: Git = (args) => sh(
+        `docker exec ${credentials?.envArgs ?? ''} ${containerId} bash -c ${shellEscape(`cd ${shellEscape(repoPath)} && git ${args}`)}`,
+        credentials?.env,
+    );
+
+    let { baseRef, headRef } = request;
+    if (request.prNumber !== undefined && (!baseRef || !headRef)) {
+        const token = await getRunGitToken(runId);
+        const pr = token ? await getGitProvider(ref.provider).getPullRequest(ref, token, request.prNumber) : null;
+        if (!pr) {
+            throw new Error(`Pull request #${request.prNumber} not found on ${ref.owner}/${ref.repo}`);
+        }
+        baseRef = baseRef ?? pr.base;
+        headRef = headRef ?? pr.head;
+    }
+    if (!baseRef) {
+        throw new Error(`No base ref for the diff scope; pass baseRef${request.prNumber !== undefined ? ` (#${request.prNumber} has no target branch)` : ''}`);
+    }
+
+    const head = headRef
+        ? await resolveCommit(git, headRef)
+        : { sha: (await git('rev-parse HEAD')).trim(), branch: (await git('rev-parse --abbrev-ref HEAD')).trim().replace(/^HEAD$/, '') || undefined };
+    const base = await resolveCommit(git, baseRef);
+    // The head branch is later checked out, pulled and pushed to; only names git accepts go on
+    if (head.branch && (head.branch.startsWith('-') || !await git(`check-ref-format --branch ${shellEscape(head.branch)}`).then(() => true, () => false))) {
+        throw new Error(`Invalid head branch name ${JSON.stringify(head.branch)}`);
+    }
+
+    // Tests are written against the head; a branch head stays a branch so bot PRs can target it
+    await git(head.branch ? `checkout -q -B ${shellEscape(head.branch)} ${head.sha}` : `checkout -q --detach ${head.sha}`);
+    const mergeBase = (await git(`merge-base ${base.sha} ${head.sha}`)).trim();
+
+    const changed: Array<{ path: string; status: ChangedSourceFile["status"] }> = [];
+    for (const line of (await git(`diff --name-status -M --diff-filter=AMR ${mergeBase} ${head.sha}`)).split('\n')) {
+        const [code, ...paths] = line.split('\t');
+        const path = paths[paths.length - 1];
+        if (!code || !path || !isTestableSourceFile(path)) continue;
+        changed.push({ path, status: code.startsWith('A') ? 'added' : code.startsWith('R') ? 'renamed' : 'modified' });
+    }
+
+    const hunks = changed.length > 0
+        ? parseZeroContextDiff(await git(`diff -U0 --no-color --no-ext-diff -M ${mergeBase} ${head.sha} -- ${changed.map(file => shellEscape(file.path)).join(' ')}`))
+        : new Map<string, { ranges: ChangedLineRange[]; functions: Set<string> }>();
+
+    return {
+        baseRef,
+        headRef: headRef ?? head.branch ?? head.sha,
+        baseSha: mergeBase,
+        headSha: head.sha,
+        headBranch: head.branch,
+        prNumber: request.prNumber,
+        files: changed.map(file => ({
+            ...file,
+            ranges: hunks.get(file.path)?.ranges ?? [],
+            functions: [...(hunks.get(file.path)?.functions ?? [])],
+        })),
+    };
+}
+
+/**
+ * Prompt lines describing a resolved scope: each changed file with its changed lines and the
+ * declarations the diff shows.
+ */
+export function describeDiffScope(scope: DiffScope, maxFiles: number): string {
+    const lines = scope.files.slice(0, maxFiles).map(file => {
+        const ranges = file.ranges.slice(0, 20).map(range => range.start === range.end ? `${range.start}` : `${range.start}-${range.end}`).join(', ');
+        const functions = file.functions.length > 0 ? `; touches: ${file.functions.join(', ')}` : '';
+        return `   - ${file.path} (${file.status}; changed lines: ${ranges || 'n/a'}${functions})`;
+    });
+    if (scope.files.length > maxFiles) lines.push(`   - …and ${scope.files.length - maxFiles} more`);
+    return lines.join('\n');
+}
@@ -1,6 +1,8 @@
 import { createTool } from "@mastra/core";
 import z from "zod";
 import { cliToolMetrics } from "./cli-tool";
+import { trackChildProcess } from "./run-control";
+import { runSandboxedCommand } from "./sandbox-policy";
 
 const inputSchema = z.object({
     containerId: z.string().describe("Docker container ID or name"),
@@ -32,14 +34,16 @@ export const dockerExecTool = createTool({
 
         const wrapped = JSON.stringify(normalized);
         const full = `docker exec ${containerId} bash -lc ${wrapped}`;
-        return await new Promise<string>((resolve, reject) => {
-            exec(full, { timeout: 120_000, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+        // Installs get registry access; everything else runs under the test-phase network policy
+        return await runSandboxedCommand(containerId, normalized, () => new Promise<string>((resolve, reject) => {
+            const child = exec(full, { timeout: 120_000, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
                 if (error) {
                     reject(new Error(stderr || error.message));
                 } else {
                     resolve(stdout);
                 }
             });
-        });
+            trackChildProcess(child, full);
+        }));
     },
 });
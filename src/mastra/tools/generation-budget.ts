@@ -0,0 +1,84 @@
+import {
+    GenerationBudgetSchema,
+    type GenerationBudget,
+    type GenerationBudgetOverride,
+    type GenerationBudgetUsage,
+} from "../types";
+
+// Limits for the test generation phase. Defaults come from env; projects can override
+// them at runtime. Specs that do not fit in the budget are skipped, not failed.
+
+const DEFAULT_MAX_FILES = 5;
+const DEFAULT_MAX_TOKENS = 1_500_000;
+const DEFAULT_MAX_WALL_TIME_MS = 30 * 60 * 1000;
+const DEFAULT_CONCURRENCY = 3;
+
+// Per-project overrides, kept for the lifetime of the server process.
+const projectBudgets = new Map<string, GenerationBudgetOverride>();
+
+function readPositiveInt(name: string, fallback: number): number {
+    const parsed = Number.parseInt(process.env[name] || '', 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function getDefaultGenerationBudget(): GenerationBudget {
+    return {
+        maxFiles: readPositiveInt('TEST_GEN_MAX_FILES', DEFAULT_MAX_FILES),
+        maxTokens: readPositiveInt('TEST_GEN_MAX_TOKENS', DEFAULT_MAX_TOKENS),
+        maxWallTimeMs: readPositiveInt('TEST_GEN_MAX_WALL_TIME_MS', DEFAULT_MAX_WALL_TIME_MS),
+        concurrency: Math.min(readPositiveInt('TEST_GEN_CONCURRENCY', DEFAULT_CONCURRENCY), 16),
+    };
+}
+
+export function getProjectGenerationBudget(projectId: string | undefined): GenerationBudget {
+    const defaults = getDefaultGenerationBudget();
+    const override = projectId ? projectBudgets.get(projectId) : undefined;
+    if (!override) return defaults;
+    return GenerationBudgetSchema.parse({ ...defaults, ...override });
+}
+
+export function setProjectGenerationBudget(projectId: string, override: GenerationBudgetOverride): GenerationBudget {
+    projectBudgets.set(projectId, override);
+    return getProjectGenerationBudget(projectId);
+}
+
+export function clearProjectGenerationBudget(projectId: string): boolean {
+    return projectBudgets.delete(projectId);
+}
+
+export interface GenerationBudgetTracker {
+    budget: GenerationBudget;
+    /** Add tokens reported by an agent call. */
+    recordTokens(tokens: number | undefined): void;
+    /** Limit that prevents starting another file, or null when there is room left. */
+    exhaustedBy(filesStarted: number): GenerationBudgetUsage['exhaustedBy'];
+    usage(): GenerationBudgetUsage;
+}
+
+/**
+ * Track consumption against a budget. Pass the usage of an earlier pass (e.g. before a retry)
+ * so the limits cover the whole generation phase rather than restarting.
+ */
+export function createGenerationBudgetTracker(budget: GenerationBudget, previous?: GenerationBudgetUsage): GenerationBudgetTracker {
+    const startedAt = Date.now() - (previous?.elapsedMs ?? 0);
+    let tokensUsed = previous?.tokensUsed ?? 0;
+    let stoppedBy: GenerationBudgetUsage['exhaustedBy'] = null;
+
+    const exhaustedBy = (filesStarted: number): GenerationBudgetUsage['exhaustedBy'] => {
+        let reason: GenerationBudgetUsage['exhaustedBy'] = null;
+        if (filesStarted >= budget.maxFiles) reason = "files";
+        else if (tokensUsed >= budget.maxTokens) reason = "tokens";
+        else if (Date.now() - startedAt >= budget.maxWallTimeMs) reason = "time";
+        if (reason && !stoppedBy) stoppedBy = reason;
+        return reason;
+    };
+
+    return {
+        budget,
+        recordTokens(tokens) {
+            if (typeof tokens === 'number' && Number.isFinite(tokens) && tokens > 0) tokensUsed += tokens;
+        },
+        exhaustedBy,
+        usage: () => ({ tokensUsed, elapsedMs: Date.now() - startedAt, exhaustedBy: stoppedBy }),
+    };
+}
@@ -0,0 +1,428 @@
+import type { CiCheck, GitProviderKind, OpenPullRequest, PullRequestResult, RepoMetadata, RepoRef } from "../types";
+
+// Provider abstraction for the hosts we clone from and open pull/merge requests on.
+// Everything here is token-in, JSON-out: callers own credentials and redaction.
+
+export interface PullRequestInput {
+    title: string;
+    body: string;
+    head: string;
+    base: string;
+}
+
+export interface PullRequestUpdate {
+    title: string;
+    body: string;
+}
+
+export interface GitProvider {
+    kind: GitProviderKind;
+    /** Token-free https clone URL; credentials are supplied by the git credential helper. */
+    cloneUrl(ref: RepoRef): string;
+    /** Browser URL listing the repository's pull/merge requests (fallback link). */
+    pullRequestsUrl(ref: RepoRef): string;
+    /** Username/password pair git should present for this token. */
+    gitCredentials(token: string): { username: string; password: string };
+    getRepoMetadata(ref: RepoRef, token?: string): Promise<RepoMetadata>;
+    createPullRequest(ref: RepoRef, token: string, input: PullRequestInput): Promise<PullRequestResult>;
+    /** Open pull/merge request whose source branch is `head` in the same repository, if any. */
+    findOpenPullRequest(ref: RepoRef, token: string, head: string): Promise<OpenPullRequest | null>;
+    /** A pull/merge request by number, whatever its state. */
+    getPullRequest(ref: RepoRef, token: string, number: number): Promise<OpenPullRequest | null>;
+    updatePullRequest(ref: RepoRef, token: string, number: number, update: PullRequestUpdate): Promise<PullRequestResult>;
+    commentOnPullRequest(ref: RepoRef, token: string, number: number, body: string): Promise<void>;
+    /** CI checks reported on a commit; empty when the host has none (yet). */
+    listCommitChecks(ref: RepoRef, token: string, sha: string): Promise<CiCheck[]>;
+    /** Raw log of a CI job, when the host exposes it. */
+    getJobLog(ref: RepoRef, token: string, jobId: string): Promise<string | undefined>;
+}
+
+async function requestJson<T>(url: string, init: RequestInit): Promise<{ ok: boolean; status: number; json?: T; text: string }> {
+    const res = await fetch(url, init);
+    const text = await res.text().catch(() => '');
+    let json: T | undefined;
+    try { json = text ? JSON.parse(text) as T : undefined; } catch { json = undefined; }
+    return { ok: res.ok, status: res.status, json, text };
+}
+
+// =============================================================================
+// GITHUB
+// =============================================================================
+
+function githubHeaders(token?: string): Record<string, string> {
+    const headers: Record<string, string> = { 'Accept': 'application/vnd.github+json', 'Content-Type': 'application/json' };
+    if (token) headers['Authorization'] = `token ${token}`;
+    return headers;
+}
+
+const githubProvider: GitProvider = {
+    kind: "github",
+    cloneUrl: (ref) => `https://${ref.host}/${ref.owner}/${ref.repo}.git`,
+    pullRequestsUrl: (ref) => `https://${ref.host}/${ref.owner}/${ref.repo}/pulls`,
+    gitCredentials: (token) => ({ username: "x-access-token", password: token }),
+    async getRepoMetadata(ref, token) {
+        const base = `https://api.github.com/repos/${ref.owner}/${ref.repo}`;
+        const repo = await requestJson<{ description?: string | null; topics?: string[]; default_branch?: string }>(base, { headers: githubHeaders(token) });
+        const languages = await requestJson<Record<string, number>>(`${base}/languages`, { headers: githubHeaders(token) });
+        return {
+            description: repo.json?.description || undefined,
+            topics: Array.isArray(repo.json?.topics) ? repo.json?.topics : undefined,
+            defaultBranch: repo.json?.default_branch,
+            languages: languages.ok ? languages.json : undefined,
+        };
+    },
+    async createPullRequest(ref, token, input) {
+        const res = await requestJson<{ html_url?: string; number?: number }>(`https://api.github.com/repos/${ref.owner}/${ref.repo}/pulls`, {
+            method: 'POST',
+            headers: githubHeaders(token),
+            body: JSON.stringify({ title: input.title, head: input.head, base: input.base, body: input.body, maintainer_can_modify: true }),
+        });
+        if (!res.ok) return { ok: false, status: res.status, text: res.text };
+        return { ok: true, url: res.json?.html_url || githubProvider.pullRequestsUrl(ref), number: res.json?.number };
+    },
+    async findOpenPullRequest(ref, token, head) {
+        const query = new URLSearchParams({ state: 'open', head: `${ref.owner}:${head}` });
+        const res = await requestJson<Array<{ number: number; html_url: string; head?: { ref?: string }; base?: { ref?: string } }>>(
+            `https://api.github.com/repos/${ref.owner}/${ref.repo}/pulls?${query}`,
+            { headers: githubHeaders(token) }
+        );
+        const pr = res.ok && Array.isArray(res.json) ? res.json[0] : undefined;
+        return pr ? { number: pr.number, url: pr.html_url, head: pr.head?.ref ?? head, base: pr.base?.ref } : null;
+    },
+    async getPullRequest(ref, token, number) {
+        const res = await requestJson<{ number: number; html_url: string; head?: { ref?: string }; base?: { ref?: string } }>(
+            `https://api.github.com/repos/${ref.owner}/${ref.repo}/pulls/${number}`,
+            { headers: githubHeaders(token) }
+        );
+        const pr = res.ok ? res.json : undefined;
+        return pr?.head?.ref ? { number: pr.number, url: pr.html_url, head: pr.head.ref, base: pr.base?.ref } : null;
+    },
+    async updatePullRequest(ref, token, number, update) {
+        const res = await requestJson<{ html_url?: string; number?: number }>(`https://api.github.com/repos/${ref.owner}/${ref.repo}/pulls/${number}`, {
+            method: 'PATCH',
+            headers: githubHeaders(token),
+            body: JSON.stringify({ title: update.title, body: update.body }),
+        });
+        if (!res.ok) return { ok: false, status: res.status, text: res.text };
+        return { ok: true, url: res.json?.html_url || githubProvider.pullRequestsUrl(ref), number: res.json?.number ?? number };
+    },
+    async commentOnPullRequest(ref, token, number, body) {
+        await fetch(`https://api.github.com/repos/${ref.owner}/${ref.repo}/issues/${number}/comments`, {
+            method: 'POST',
+            headers: githubHeaders(token),
+            body: JSON.stringify({ body }),
+        });
+    },
+    async listCommitChecks(ref, token, sha) {
+        const base = `https://api.github.com/repos/${ref.owner}/${ref.repo}/commits/${sha}`;
+        const runs = await requestJson<{ check_runs?: Array<{ id: number; name: string; status: string; conclusion: string | null; html_url?: string; app?: { slug?: string } }> }>(
+            `${base}/check-runs?per_page=100`,
+            { headers: githubHeaders(token) }
+        );
+        const combined = await requestJson<{ statuses?: Array<{ context: string; state: string; target_url?: string | null }> }>(`${base}/status`, { headers: githubHeaders(token) });
+        return [
+            ...(runs.json?.check_runs ?? []).map((run): CiCheck => ({
+                name: run.name,
+                state: run.status !== 'completed'
+                    ? "pending"
+                    : run.conclusion === 'success' ? "success" : (run.conclusion === 'neutral' || run.conclusion === 'skipped') ? "skipped" : "failure",
+                url: run.html_url,
+                // Actions check runs share their id with the job, whose log can be downloaded
+                jobId: run.app?.slug === 'github-actions' ? String(run.id) : undefined,
+            })),
+            ...(combined.json?.statuses ?? []).map((status): CiCheck => ({
+                name: status.context,
+                state: status.state === 'success' ? "success" : status.state === 'pending' ? "pending" : "failure",
+                url: status.target_url ?? undefined,
+            })),
+        ];
+    },
+    async getJobLog(ref, token, jobId) {
+        // Redirects to a short-lived download URL; fetch follows it
+        const res = await fetch(`https://api.github.com/repos/${ref.owner}/${ref.repo}/actions/jobs/${jobId}/logs`, { headers: githubHeaders(token) });
+        return res.ok ? await res.text() : undefined;
+    },
+};
+
+// =============================================================================
+// GITLAB (gitlab.com and self-hosted)
+// =============================================================================
+
+function gitlabProjectApi(ref: RepoRef): string {
+    return `https://${ref.host}/api/v4/projects/${encodeURIComponent(`${ref.owner}/${ref.repo}`)}`;
+}
+
+function gitlabHeaders(token?: string): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    return headers;
+}
+
+const gitlabProvider: GitProvider = {
+    kind: "gitlab",
+    cloneUrl: (ref) => `https://${ref.host}/${ref.owner}/${ref.repo}.git`,
+    pullRequestsUrl: (ref) => `https://${ref.host}/${ref.owner}/${ref.repo}/-/merge_requests`,
+    gitCredentials: (token) => ({ username: "oauth2", password: token }),
+    async getRepoMetadata(ref, token) {
+        const project = await requestJson<{ description?: string | null; topics?: string[]; tag_list?: string[]; default_branch?: string }>(gitlabProjectApi(ref), { headers: gitlabHeaders(token) });
+        const languages = await requestJson<Record<string, number>>(`${gitlabProjectApi(ref)}/languages`, { headers: gitlabHeaders(token) });
+        const topics = project.json?.topics || project.json?.tag_list;
+        return {
+            description: project.json?.description || undefined,
+            topics: Array.isArray(topics) ? topics : undefined,
+            defaultBranch: project.json?.default_branch,
+            languages: languages.ok ? languages.json : undefined,
+        };
+    },
+    async createPullRequest(ref, token, input) {
+        const res = await requestJson<{ web_url?: string; iid?: number }>(`${gitlabProjectApi(ref)}/merge_requests`, {
+            method: 'POST',
+            headers: gitlabHeaders(token),
+            body: JSON.stringify({
+                source_branch: input.head,
+                target_branch: input.base,
+                title: input.title,
+                description: input.body,
+                remove_source_branch: true,
+            }),
+        });
+        if (!res.ok) return { ok: false, status: res.status, text: res.text };
+        return { ok: true, url: res.json?.web_url || gitlabProvider.pullRequestsUrl(ref), number: res.json?.iid };
+    },
+    async findOpenPullRequest(ref, token, head) {
+        const query = new URLSearchParams({ state: 'opened', source_branch: head });
+        const res = await requestJson<Array<{ iid: number; web_url: string; source_branch?: string; target_branch?: string }>>(
+            `${gitlabProjectApi(ref)}/merge_requests?${query}`,
+            { headers: gitlabHeaders(token) }
+        );
+        const mr = res.ok && Array.isArray(res.json) ? res.json[0] : undefined;
+        return mr ? { number: mr.iid, url: mr.web_url, head: mr.source_branch ?? head, base: mr.target_branch } : null;
+    },
+    async getPullRequest(ref, token, number) {
+        const res = await requestJson<{ iid: number; web_url: string; source_branch?: string; target_branch?: string }>(
+            `${gitlabProjectApi(ref)}/merge_requests/${number}`,
+            { headers: gitlabHeaders(token) }
+        );
+        const mr = res.ok ? res.json : undefined;
+        return mr?.source_branch ? { number: mr.iid, url: mr.web_url, head: mr.source_branch, base: mr.target_branch } : null;
+    },
+    async updatePullRequest(ref, token, number, update) {
+        const res = await requestJson<{ web_url?: string; iid?: number }>(`${gitlabProjectApi(ref)}/merge_requests/${number}`, {
+            method: 'PUT',
+            headers: gitlabHeaders(token),
+            body: JSON.stringify({ title: update.title, description: update.body }),
+        });
+        if (!res.ok) return { ok: false, status: res.status, text: res.text };
+        return { ok: true, url: res.json?.web_url || gitlabProvider.pullRequestsUrl(ref), number: res.json?.iid ?? number };
+    },
+    async commentOnPullRequest(ref, token, number, body) {
+        await fetch(`${gitlabProjectApi(ref)}/merge_requests/${number}/notes`, {
+            method: 'POST',
+            headers: gitlabHeaders(token),
+            body: JSON.stringify({ body }),
+        });
+    },
+    async listCommitChecks(ref, token, sha) {
+        const res = await requestJson<Array<{ id: number; name: string; status: string; target_url?: string | null }>>(
+            `${gitlabProjectApi(ref)}/repository/commits/${sha}/statuses?per_page=100`,
+            { headers: gitlabHeaders(token) }
+        );
+        return (res.ok && Array.isArray(res.json) ? res.json : []).map((status): CiCheck => ({
+            name: status.name,
+            state: status.status === 'success'
+                ? "success"
+                : (status.status === 'failed' || status.status === 'canceled') ? "failure" : (status.status === 'skipped' || status.status === 'manual') ? "skipped" : "pending",
+            url: status.target_url ?? undefined,
+            // Statuses created by GitLab CI jobs carry the job id
+            jobId: String(status.id),
+        }));
+    },
+    async getJobLog(ref, token, jobId) {
+        const res = await fetch(`${gitlabProjectApi(ref)}/jobs/${jobId}/trace`, { headers: gitlabHeaders(token) });
+        return res.ok ? await res.text() : undefined;
+    },
+};
+
+// =============================================================================
+// BITBUCKET CLOUD
+// =============================================================================
+
+// Bitbucket accepts repository/workspace access tokens (Bearer) or "username:app_password" (Basic).
+function bitbucketHeaders(token?: string): Record<string, string> {
+    const headers: Record<string, string> = { 'Accept': 'application/json', 'Content-Type': 'application/json' };
+    if (token) {
+        headers['Authorization'] = token.includes(':')
+            ? `Basic ${Buffer.from(token).toString('base64')}`
+            : `Bearer ${token}`;
+    }
+    return headers;
+}
+
+function bitbucketRepoApi(ref: RepoRef): string {
+    return `https://api.bitbucket.org/2.0/repositories/${ref.owner}/${ref.repo}`;
+}
+
+const bitbucketProvider: GitProvider = {
+    kind: "bitbucket",
+    cloneUrl: (ref) => `https://${ref.host}/${ref.owner}/${ref.repo}.git`,
+    pullRequestsUrl: (ref) => `https://${ref.host}/${ref.owner}/${ref.repo}/pull-requests`,
+    gitCredentials: (token) => {
+        const separator = token.indexOf(':');
+        return separator > 0
+            ? { username: token.substring(0, separator), password: token.substring(separator + 1) }
+            : { username: "x-token-auth", password: token };
+    },
+    async getRepoMetadata(ref, token) {
+        const repo = await requestJson<{ description?: string; language?: string; mainbranch?: { name?: string } }>(bitbucketRepoApi(ref), { headers: bitbucketHeaders(token) });
+        const language = repo.json?.language;
+        return {
+            description: repo.json?.description || undefined,
+            defaultBranch: repo.json?.mainbranch?.name,
+            // Bitbucket only reports the primary language
+            languages: language ? { [language]: 1 } : undefined,
+        };
+    },
+    async createPullRequest(ref, token, input) {
+        const res = await requestJson<{ id?: number; links?: { html?: { href?: string } } }>(`${bitbucketRepoApi(ref)}/pullrequests`, {
+            method: 'POST',
+            headers: bitbucketHeaders(token),
+            body: JSON.stringify({
+                title: input.title,
+                description: input.body,
+                source: { branch: { name: input.head } },
+                destination: { branch: { name: input.base } },
+                close_source_branch: true,
+            }),
+        });
+        if (!res.ok) return { ok: false, status: res.status, text: res.text };
+        return { ok: true, url: res.json?.links?.html?.href || bitbucketProvider.pullRequestsUrl(ref), number: res.json?.id };
+    },
+    async findOpenPullRequest(ref, token, head) {
+        const query = new URLSearchParams({ state: 'OPEN', q: `source.branch.name="${head}"` });
+        const res = await requestJson<{ values?: Array<{ id: number; links?: { html?: { href?: string } }; destination?: { branch?: { name?: string } } }> }>(
+            `${bitbucketRepoApi(ref)}/pullrequests?${query}`,
+            { headers: bitbucketHeaders(token) }
+        );
+        const pr = res.ok ? res.json?.values?.[0] : undefined;
+        return pr
+            ? { number: pr.id, url: pr.links?.html?.href || bitbucketProvider.pullRequestsUrl(ref), head, base: pr.destination?.branch?.name }
+            : null;
+    },
+    async getPullRequest(ref, token, number) {
+        const res = await requestJson<{ id: number; links?: { html?: { href?: string } }; source?: { branch?: { name?: string } }; destination?: { branch?: { name?: string } } }>(
+            `${bitbucketRepoApi(ref)}/pullrequests/${number}`,
+            { headers: bitbucketHeaders(token) }
+        );
+        const pr = res.ok ? res.json : undefined;
+        return pr?.source?.branch?.name
+            ? { number: pr.id, url: pr.links?.html?.href || bitbucketProvider.pullRequestsUrl(ref), head: pr.source.branch.name, base: pr.destination?.branch?.name }
+            : null;
+    },
+    async updatePullRequest(ref, token, number, update) {
+        // Bitbucket's PUT replaces the title and description; other fields are left as they are
+        const res = await requestJson<{ id?: number; links?: { html?: { href?: string } } }>(`${bitbucketRepoApi(ref)}/pullrequests/${number}`, {
+            method: 'PUT',
+            headers: bitbucketHeaders(token),
+            body: JSON.stringify({ title: update.title, description: update.body }),
+        });
+        if (!res.ok) return { ok: false, status: res.status, text: res.text };
+        return { ok: true, url: res.json?.links?.html?.href || bitbucketProvider.pullRequestsUrl(ref), number: res.json?.id ?? number };
+    },
+    async commentOnPullRequest(ref, token, number, body) {
+        await fetch(`${bitbucketRepoApi(ref)}/pullrequests/${number}/comments`, {
+            method: 'POST',
+            headers: bitbucketHeaders(token),
+            body: JSON.stringify({ content: { raw: body } }),
+        });
+    },
+    async listCommitChecks(ref, token, sha) {
+        const res = await requestJson<{ values?: Array<{ key: string; name?: string; state: string; url?: string }> }>(
+            `${bitbucketRepoApi(ref)}/commit/${sha}/statuses?pagelen=100`,
+            { headers: bitbucketHeaders(token) }
+        );
+        return (res.ok ? res.json?.values ?? [] : []).map((status): CiCheck => ({
+            name: status.name || status.key,
+            state: status.state === 'SUCCESSFUL' ? "success" : status.state === 'INPROGRESS' ? "pending" : "failure",
+            url: status.url,
+        }));
+    },
+    async getJobLog() {
+        // Build statuses do not link to a downloadable log
+        return undefined;
+    },
+};
+
+const providers: Record<GitProviderKind, GitProvider> = {
+    github: githubProvider,
+    gitlab: gitlabProvider,
+    bitbucket: bitbucketProvider,
+};
+
+export function getGitProvider(kind: GitProviderKind): GitProvider {
+    return providers[kind];
+}
+
+// =============================================================================
+// URL PARSING
+// =============================================================================
+
+function getSelfHostedGitlabHosts(): string[] {
+    return (process.env.GITLAB_HOSTS || '').split(',').map(h => h.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Provider for a host. Self-hosted GitLab is recognised by a 'gitlab' host name or GITLAB_HOSTS.
+ */
+export function detectProviderForHost(host: string): GitProviderKind | undefined {
+    const normalized = host.toLowerCase();
+    if (normalized === 'github.com' || normalized === 'www.github.com') return "github";
+    if (normalized === 'bitbucket.org' || normalized === 'www.bitbucket.org') return "bitbucket";
+    if (normalized === 'gitlab.com' || normalized.includes('gitlab') || getSelfHostedGitlabHosts().includes(normalized)) return "gitlab";
+    return undefined;
+}
+
+/**
+ * Parse a repository reference: https URLs (including GitLab web URLs with /-/ suffixes and
+ * nested groups), scp-style git@host:path URLs, or "owner/repo" shorthand resolved against the hint.
+ */
+export function parseRepoUrl(input: string, hint?: { provider?: GitProviderKind; host?: string }): RepoRef {
+    const raw = input.trim();
+    let host: string | undefined;
+    let pathPart: string;
+
+    const scp = raw.match(/^[\w.-]+@([^:/]+):(.+)$/);
+    if (scp) {
+        host = scp[1];
+        pathPart = scp[2];
+    } else if (/^[a-z]+:\/\//i.test(raw)) {
+        const url = new URL(raw);
+        host = url.host;
+        pathPart = url.pathname;
+    } else if (/^[^\s/]+\.[^\s/]+\/.+\/.+/.test(raw) && detectProviderForHost(raw.split('/')[0])) {
+        // "gitlab.com/group/repo" without scheme
+        host = raw.split('/')[0];
+        pathPart = raw.split('/').slice(1).join('/');
+    } else if (raw.includes('/') && !raw.includes(' ')) {
+        pathPart = raw;
+    } else {
+        throw new Error(`Invalid repository format: ${raw}. Expected a repository URL or "owner/repo"`);
+    }
+
+    const provider = (host ? detectProviderForHost(host) : undefined) || hint?.provider || (host ? undefined : "github");
+    if (!provider) {
+        throw new Error(`Unknown git host '${host}'. Set contextData.provider or add it to GITLAB_HOSTS for self-hosted GitLab.`);
+    }
+    const resolvedHost = host || hint?.host || (provider === "gitlab" ? "gitlab.com" : provider === "bitbucket" ? "bitbucket.org" : "github.com");
+
+    // Drop GitLab's "/-/tree/main"-style suffixes, leading/trailing slashes and .git
+    const segments = pathPart.split('/-/')[0].replace(/^\/+|\/+$/g, '').replace(/\.git$/, '').split('/').filter(Boolean);
+    if (segments.length < 2) {
+        throw new Error(`Invalid repository path in ${raw}. Expected owner/repo`);
+    }
+    // GitLab supports nested groups; GitHub and Bitbucket URLs may carry extra path (e.g. /tree/main)
+    const [owner, repo] = provider === "gitlab"
+        ? [segments.slice(0, -1).join('/'), segments[segments.length - 1]]
+        : [segments[0], segments[1]];
+
+    return { provider, host: resolvedHost.toLowerCase(), owner, repo };
+}
@@ -0,0 +1,104 @@
+import { createSign } from "crypto";
+import { existsSync, readFileSync } from "fs";
+
+// GitHub App authentication: a short-lived JWT signed with the app private key is
+// exchanged for an installation token (valid ~1 hour) scoped to the installation.
+
+const GITHUB_API = "https://api.github.com";
+
+export interface InstallationToken {
+    token: string;
+    expiresAt: string;
+}
+
+export interface GitIdentity {
+    name: string;
+    email: string;
+}
+
+let cachedBotIdentity: GitIdentity | undefined;
+
+function getAppId(): string | undefined {
+    const appId = process.env.GITHUB_APP_ID;
+    return appId && appId.trim() ? appId.trim() : undefined;
+}
+
+function getAppPrivateKey(): string | undefined {
+    const inline = process.env.GITHUB_APP_PRIVATE_KEY;
+    // Env files commonly store the PEM on one line with literal \n separators
+    if (inline && inline.trim()) return inline.replace(/\\n/g, '\n');
+    const keyPath = process.env.GITHUB_APP_PRIVATE_KEY_PATH;
+    if (keyPath && existsSync(keyPath)) return readFileSync(keyPath, 'utf8');
+    return undefined;
+}
+
+export function isGithubAppConfigured(): boolean {
+    return !!getAppId() && !!getAppPrivateKey();
+}
+
+function base64Url(input: string | Buffer): string {
+    return Buffer.from(input).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+function createAppJwt(): string {
+    const appId = getAppId();
+    const privateKey = getAppPrivateKey();
+    if (!appId || !privateKey) {
+        throw new Error("GitHub App is not configured (GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY[_PATH] are required)");
+    }
+    const now = Math.floor(Date.now() / 1000);
+    // Backdate iat for clock drift; GitHub caps exp at 10 minutes
+    const header = base64Url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+    const payload = base64Url(JSON.stringify({ iat: now - 60, exp: now + 9 * 60, iss: appId }));
+    const signer = createSign('RSA-SHA256');
+    signer.update(`${header}.${payload}`);
+    const signature = base64Url(signer.sign(privateKey));
+    return `${header}.${payload}.${signature}`;
+}
+
+async function appRequest<T>(method: string, pathname: string): Promise<T> {
+    const res = await fetch(`${GITHUB_API}${pathname}`, {
+        method,
+        headers: {
+            'Authorization': `Bearer ${createAppJwt()}`,
+            'Accept': 'application/vnd.github+json',
+        },
+    });
+    if (!res.ok) {
+        const text = await res.text().catch(() => '');
+        throw new Error(`GitHub App request ${method} ${pathname} failed: ${res.status} ${text.substring(0, 300)}`);
+    }
+    return await res.json() as T;
+}
+
+/**
+ * Mint an installation access token for the given installation id.
+ */
+export async function createInstallationToken(installationId: string): Promise<InstallationToken> {
+    const json = await appRequest<{ token?: string; expires_at?: string }>('POST', `/app/installations/${encodeURIComponent(installationId)}/access_tokens`);
+    if (!json.token || !json.expires_at) {
+        throw new Error(`GitHub App returned no token for installation ${installationId}`);
+    }
+    return { token: json.token, expiresAt: json.expires_at };
+}
+
+/**
+ * Commit identity of the app's bot user (e.g. "my-app[bot]"), so commits and PRs
+ * are attributed to the app rather than a personal account.
+ */
+export async function getAppBotIdentity(): Promise<GitIdentity> {
+    if (cachedBotIdentity) return cachedBotIdentity;
+    const app = await appRequest<{ slug?: string }>('GET', '/app');
+    const slug = app.slug || 'mastra-agent';
+    const login = `${slug}[bot]`;
+    let userId: number | undefined;
+    try {
+        const res = await fetch(`${GITHUB_API}/users/${encodeURIComponent(login)}`, { headers: { 'Accept': 'application/vnd.github+json' } });
+        if (res.ok) userId = (await res.json() as { id?: number }).id;
+    } catch { /* fall back to the id-less noreply address */ }
+    cachedBotIdentity = {
+        name: login,
+        email: userId ? `${userId}+${login}@users.noreply.github.com` : `${login}@users.noreply.github.com`,
+    };
+    return cachedBotIdentity;
+}
@@ -0,0 +1,89 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { GitHubPullRequestFileSchema, type RepoRef } from "../types";
+import { isTestableSourceFile } from "./diff-scope";
+
+// GitHub webhook deliveries are signed with the webhook secret (HMAC-SHA256 of the raw body,
+// sent as X-Hub-Signature-256). Deliveries are only accepted when a secret is configured.
+
+function getWebhookSecret(): string | undefined {
+    const secret = process.env.GITHUB_WEBHOOK_SECRET;
+    return secret && secret.trim() ? secret.trim() : undefined;
+}
+
+export function isWebhookSecretConfigured(): boolean {
+    return !!getWebhookSecret();
+}
+
+/**
+ * Check X-Hub-Signature-256 against the raw request body (before any JSON parsing).
+ */
+export function verifyWebhookSignature(rawBody: string, signatureHeader: string | undefined): boolean {
+    const secret = getWebhookSecret();
+    if (!secret || !signatureHeader || !signatureHeader.startsWith('sha256=')) return false;
+    const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(rawBody, 'utf8').digest('hex')}`);
+    const received = Buffer.from(signatureHeader.trim());
+    return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// =============================================================================
+// DELIVERIES
+// =============================================================================
+
+// GitHub retries and redelivers with the same X-GitHub-Delivery id; each id starts at most one run
+const seenDeliveries = new Set<string>();
+const MAX_SEEN_DELIVERIES = 1000;
+
+/**
+ * Claim a delivery id. Returns false when it was already claimed.
+ */
+export function claimWebhookDelivery(deliveryId: string): boolean {
+    if (seenDeliveries.has(deliveryId)) return false;
+    seenDeliveries.add(deliveryId);
+    // Set preserves insertion order: forget the oldest ids first
+    for (const oldest of seenDeliveries) {
+        if (seenDeliveries.size <= MAX_SEEN_DELIVERIES) break;
+        seenDeliveries.delete(oldest);
+    }
+    return true;
+}
+
+/**
+ * Give a claimed delivery back, so a redelivery of a request that failed is handled again.
+ */
+export function releaseWebhookDelivery(deliveryId: string): void {
+    seenDeliveries.delete(deliveryId);
+}
+
+// =============================================================================
+// PULL REQUEST FILES
+// =============================================================================
+
+const GITHUB_API = "https://api.github.com";
+const FILES_PER_PAGE = 100;
+// GitHub lists at most 3000 files per pull request
+const MAX_FILE_PAGES = 30;
+
+/**
+ * Source files a pull request adds or modifies (removed files, declarations and tests excluded).
+ */
+export async function listPullRequestSourceFiles(ref: RepoRef, token: string, prNumber: number): Promise<string[]> {
+    const files: string[] = [];
+    for (let page = 1; page <= MAX_FILE_PAGES; page++) {
+        const res = await fetch(`${GITHUB_API}/repos/${ref.owner}/${ref.repo}/pulls/${prNumber}/files?per_page=${FILES_PER_PAGE}&page=${page}`, {
+            headers: { 'Accept': 'application/vnd.github+json', 'Authorization': `token ${token}` },
+        });
+        if (!res.ok) {
+            const text = await res.text().catch(() => '');
+            throw new Error(`Listing files of #${prNumber} failed: ${res.status} ${text.substring(0, 300)}`);
+        }
+        const json = await res.json() as unknown[];
+        if (!Array.isArray(json)) break;
+        for (const item of json) {
+            const parsed = GitHubPullRequestFileSchema.safeParse(item);
+            if (!parsed.success || parsed.data.status === 'removed') continue;
+            if (isTestableSourceFile(parsed.data.filename)) files.push(parsed.data.filename);
+        }
+        if (json.length < FILES_PER_PAGE) break;
+    }
+    return files;
+}
@@ -0,0 +1,181 @@
+import type { PlanDecision, PlanEdit, PlanReview, TestPlan } from "../types";
+
+// Approval gate between planning and test generation. Runs started with requirePlanApproval
+// suspend after planning and give up their queue slot until a reviewer approves the plan
+// (possibly edited) or rejects it. Approved runs are resumed by their launcher; rejected runs
+// are cancelled by the caller; reviews nobody decides in time expire and fail the run.
+
+const DEFAULT_APPROVAL_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+const MAX_STORED_REVIEWS = 200;
+
+function getApprovalTimeoutMs(): number {
+    const raw = Number(process.env.PLAN_APPROVAL_TIMEOUT_MS);
+    return Number.isFinite(raw) && raw > 0 ? raw : DEFAULT_APPROVAL_TIMEOUT_MS;
+}
+
+interface PendingApproval {
+    decision: Promise<PlanReview>;
+    resolve: (review: PlanReview) => void;
+    timer: NodeJS.Timeout;
+}
+
+const approvalRequired = new Set<string>();
+// Reviews outlive their run so the decision stays visible, like run records
+const reviews = new Map<string, PlanReview>();
+const pending = new Map<string, PendingApproval>();
+
+export function requirePlanApproval(runId: string): void {
+    approvalRequired.add(runId);
+}
+
+export function isPlanApprovalRequired(runId: string | undefined): boolean {
+    return !!runId && approvalRequired.has(runId);
+}
+
+export function getPlanReview(runId: string | undefined): PlanReview | undefined {
+    return runId ? reviews.get(runId) : undefined;
+}
+
+/**
+ * Open a pending review of the plan. The decision settles once: with the approved review, or
+ * rejected when the run is cancelled (including after a rejection) or the review expires.
+ */
+export function openPlanReview(runId: string, projectId: string | undefined, plan: TestPlan, signal?: AbortSignal): PlanReview {
+    clearPlanDecision(runId);
+    const timeoutMs = getApprovalTimeoutMs();
+    const requestedAt = Date.now();
+    const review: PlanReview = {
+        runId,
+        projectId,
+        status: "pending",
+        plan,
+        edited: false,
+        requestedAt: new Date(requestedAt).toISOString(),
+        expiresAt: new Date(requestedAt + timeoutMs).toISOString(),
+    };
+    reviews.set(runId, review);
+    // Map preserves insertion order: drop the oldest reviews first
+    for (const oldest of reviews.keys()) {
+        if (reviews.size <= MAX_STORED_REVIEWS) break;
+        reviews.delete(oldest);
+    }
+
+    let resolve!: (review: PlanReview) => void;
+    let reject!: (err: Error) => void;
+    const decision = new Promise<PlanReview>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    // Nobody may be waiting yet when the decision settles
+    decision.catch(() => undefined);
+
+    const settle = () => {
+        clearTimeout(timer);
+        pending.delete(runId);
+        signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+        settle();
+        reject(signal?.reason instanceof Error ? signal.reason : new Error("Run cancelled while waiting for plan approval"));
+    };
+    const timer = setTimeout(() => {
+        settle();
+        review.status = "expired";
+        review.decidedAt = new Date().toISOString();
+        reject(new Error(`Plan approval timed out after ${Math.round(timeoutMs / 60000)} minute(s)`));
+    }, timeoutMs);
+    pending.set(runId, {
+        decision,
+        resolve: (approved) => {
+            settle();
+            resolve(approved);
+        },
+        timer,
+    });
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener("abort", onAbort, { once: true });
+    return review;
+}
+
+/**
+ * The decision on the run's open review, if it has one.
+ */
+export function waitForPlanDecision(runId: string): Promise<PlanReview> | undefined {
+    return pending.get(runId)?.decision;
+}
+
+function applyEdit(review: PlanReview, edit: PlanEdit): void {
+    if (!edit.testSpecs && !edit.repoAnalysis) return;
+    const testSpecs = edit.testSpecs ?? review.plan.testSpecs;
+    review.plan = {
+        repoAnalysis: { ...(edit.repoAnalysis ?? review.plan.repoAnalysis), totalFiles: testSpecs.length },
+        testSpecs,
+    };
+    review.edited = true;
+}
+
+function getPendingReview(runId: string): { review: PlanReview; entry: PendingApproval } | { reason: string } {
+    const review = reviews.get(runId);
+    const entry = pending.get(runId);
+    if (!review) return { reason: `No plan for run ${runId}` };
+    if (review.status !== "pending") return { reason: `Plan of run ${runId} was already ${review.status}` };
+    if (!entry) return { reason: `Run ${runId} is no longer waiting for plan approval` };
+    return { review, entry };
+}
+
+/**
+ * Replace parts of a pending plan; the run keeps waiting.
+ */
+export function editPlan(runId: string, edit: PlanEdit): { ok: true; review: PlanReview } | { ok: false; reason: string } {
+    const found = getPendingReview(runId);
+    if ("reason" in found) return { ok: false, reason: found.reason };
+    applyEdit(found.review, edit);
+    return { ok: true, review: found.review };
+}
+
+/**
+ * Approve a pending plan (with last edits, if any) and let the run generate tests from it.
+ */
+export function approvePlan(runId: string, decision: PlanDecision): { ok: true; review: PlanReview } | { ok: false; reason: string } {
+    const found = getPendingReview(runId);
+    if ("reason" in found) return { ok: false, reason: found.reason };
+    const { review, entry } = found;
+    applyEdit(review, decision);
+    review.status = "approved";
+    review.decidedAt = new Date().toISOString();
+    review.reviewer = decision.reviewer;
+    review.comment = decision.comment;
+    entry.resolve(review);
+    return { ok: true, review };
+}
+
+/**
+ * Record a rejection. The run is still waiting; the caller cancels it with the returned reason.
+ */
+export function rejectPlan(runId: string, decision: PlanDecision): { ok: true; review: PlanReview; reason: string } | { ok: false; reason: string } {
+    const found = getPendingReview(runId);
+    if ("reason" in found) return { ok: false, reason: found.reason };
+    const { review } = found;
+    review.status = "rejected";
+    review.decidedAt = new Date().toISOString();
+    review.reviewer = decision.reviewer;
+    review.comment = decision.comment;
+    const reason = `Plan rejected${decision.reviewer ? ` by ${decision.reviewer}` : ""}${decision.comment ? `: ${decision.comment}` : ""}`;
+    return { ok: true, review, reason };
+}
+
+/**
+ * Drop the run's gate when it settles. Its review stays readable.
+ */
+export function clearPlanApproval(runId: string): void {
+    approvalRequired.delete(runId);
+    clearPlanDecision(runId);
+}
+
+function clearPlanDecision(runId: string): void {
+    const entry = pending.get(runId);
+    if (entry) {
+        clearTimeout(entry.timer);
+        pending.delete(runId);
+    }
+}
@@ -0,0 +1,49 @@
+import {
+    PrPolicyModeSchema,
+    PrPolicySchema,
+    type PrPolicy,
+    type PrPolicyOverride,
+} from "../types";
+
+// How runs publish their tests. By default every run of a project pushes to one bot branch and
+// keeps its open PR up to date; "always_new" restores one branch and PR per run.
+
+const DEFAULT_MODE = "update_existing";
+
+// Per-project overrides, kept for the lifetime of the server process.
+const projectPolicies = new Map<string, PrPolicyOverride>();
+
+export function getDefaultPrPolicy(): PrPolicy {
+    const parsed = PrPolicyModeSchema.safeParse(process.env.PR_POLICY_MODE);
+    return { mode: parsed.success ? parsed.data : DEFAULT_MODE };
+}
+
+export function getProjectPrPolicy(projectId: string | undefined): PrPolicy {
+    const defaults = getDefaultPrPolicy();
+    const override = projectId ? projectPolicies.get(projectId) : undefined;
+    if (!override) return defaults;
+    return PrPolicySchema.parse({ ...defaults, ...override });
+}
+
+export function setProjectPrPolicy(projectId: string, override: PrPolicyOverride): PrPolicy {
+    projectPolicies.set(projectId, override);
+    return getProjectPrPolicy(projectId);
+}
+
+export function clearProjectPrPolicy(projectId: string): boolean {
+    return projectPolicies.delete(projectId);
+}
+
+function toBranchSlug(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^[-.]+|[-.]+$/g, '').substring(0, 60);
+}
+
+/**
+ * Stable bot branch for a project, so a later run can find the PR an earlier run opened.
+ * Incremental runs on another branch get one bot branch per target branch.
+ */
+export function getProjectBranchName(projectId: string, targetBranch?: string): string {
+    const base = `mastra/unit-tests-${toBranchSlug(projectId) || 'project'}`;
+    const target = targetBranch ? toBranchSlug(targetBranch) : '';
+    return target ? `${base}--${target}` : base;
+}
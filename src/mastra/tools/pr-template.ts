@@ -0,0 +1,238 @@
+import {
+    PrTemplateSchema,
+    type PrCoverage,
+    type PrTemplate,
+    type PrTemplateOverride,
+    type RepoRef,
+    type RepoTestAnalysis,
+    type TestGenerationResult,
+    type TestSpecification,
+} from "../types";
+import { getTestFrameworkProfile, parseTestFramework } from "./test-frameworks";
+
+// PR title/body templates. Every placeholder is filled from data the run measured or planned;
+// anything not measured renders as such instead of being claimed.
+//
+// Placeholders: {{projectId}} {{baseBranch}} {{branchName}} {{framework}} {{testFileCount}}
+// {{functionsCount}} {{testCasesCount}} {{testFiles}} {{notIncluded}} {{testRun}} {{failingTests}}
+// {{coverage}} {{planReasoning}} {{specs}} {{checklist}} {{unexpectedChanges}}
+
+const DEFAULT_PR_TEMPLATE: PrTemplate = {
+    title: "Add unit tests for {{testFileCount}} file(s) ({{testCasesCount}} cases)",
+    body: `## What
+Adds {{framework}} unit tests for {{testFileCount}} source file(s), generated and run in a sandbox against \`{{baseBranch}}\`.
+
+## Test files
+{{testFiles}}
+
+Not included: {{notIncluded}}
+
+## Results
+- Test run: {{testRun}}
+- Coverage: {{coverage}}
+
+{{failingTests}}
+
+## Why these files
+{{planReasoning}}
+
+## Scenarios covered
+{{specs}}
+
+{{unexpectedChanges}}
+
+## Checklist
+{{checklist}}
+
+## Reviewer notes
+- Start with the test names for intent
+- Verify mocks align with real dependency boundaries
+- Suggest additional cases where behaviour is ambiguous`,
+};
+
+// Per-project overrides, kept for the lifetime of the server process.
+const projectTemplates = new Map<string, PrTemplateOverride>();
+
+export function getDefaultPrTemplate(): PrTemplate {
+    return { ...DEFAULT_PR_TEMPLATE };
+}
+
+export function getProjectPrTemplate(projectId: string | undefined): PrTemplate {
+    const defaults = getDefaultPrTemplate();
+    const override = projectId ? projectTemplates.get(projectId) : undefined;
+    if (!override) return defaults;
+    return PrTemplateSchema.parse({ ...defaults, ...override });
+}
+
+export function setProjectPrTemplate(projectId: string, override: PrTemplateOverride): PrTemplate {
+    projectTemplates.set(projectId, override);
+    return getProjectPrTemplate(projectId);
+}
+
+export function clearProjectPrTemplate(projectId: string): boolean {
+    return projectTemplates.delete(projectId);
+}
+
+// =============================================================================
+// RENDERING
+// =============================================================================
+
+export interface PrTemplateData {
+    projectId: string;
+    baseBranch: string;
+    branchName: string;
+    testGeneration?: TestGenerationResult;
+    testSpecs?: TestSpecification[];
+    repoAnalysis?: RepoTestAnalysis;
+    unexpectedChanges?: string[];
+    /** Set once the coverage phase has run; the PR is opened before that. */
+    coverage?: PrCoverage;
+}
+
+function formatPct(value: number): string {
+    return `${(value * 100).toFixed(1)}%`;
+}
+
+function checkbox(checked: boolean, label: string): string {
+    return `- [${checked ? 'x' : ' '}] ${label}`;
+}
+
+/**
+ * Placeholder values for a run. Exposed so callers can log or post what the PR will say.
+ */
+export function buildPrTemplateValues(data: PrTemplateData): Record<string, string> {
+    const tg = data.testGeneration;
+    const execution = tg?.execution;
+    const generated = tg?.testFiles.filter(file => file.success) ?? [];
+    const notGenerated = tg?.testFiles.filter(file => !file.success) ?? [];
+    const runsByFile = new Map((execution?.files ?? []).map(file => [file.testFile, file]));
+
+    const testFiles = generated.length > 0
+        ? [
+            "| Test file | Source | Cases | Result |",
+            "| --- | --- | --- | --- |",
+            ...generated.map(file => {
+                const run = runsByFile.get(file.testFile);
+                const result = !run
+                    ? "not run"
+                    : run.suiteError
+                        ? "❌ failed to load"
+                        : `${run.failed > 0 ? '❌' : '✅'} ${run.passed} passed, ${run.failed} failed`;
+                return `| \`${file.testFile}\` | \`${file.sourceFile}\` | ${file.testCasesCount} | ${result} |`;
+            }),
+        ].join("\n")
+        : "_No test files were generated._";
+
+    const passed = execution?.files.reduce((sum, file) => sum + file.passed, 0) ?? 0;
+    const failed = execution?.files.reduce((sum, file) => sum + file.failed, 0) ?? 0;
+    const testRun = execution
+        ? `${passed} passed, ${failed} failed (\`${execution.runner}\`, exit code ${execution.exitCode}, ${(execution.durationMs / 1000).toFixed(1)}s)`
+        : "not executed";
+
+    const failingCases = (execution?.files ?? []).flatMap(file => [
+        ...(file.suiteError ? [`- \`${file.testFile}\` failed to load: ${file.suiteError.split('\n')[0]}`] : []),
+        ...file.cases.filter(c => c.status === 'failed').map(c => `- \`${file.testFile}\` › ${c.name}${c.errorMessage ? `: ${c.errorMessage.split('\n')[0]}` : ''}`),
+    ]);
+    const failingTests = failingCases.length > 0
+        ? [`### Failing tests (${failingCases.length})`, ...failingCases.slice(0, 30), ...(failingCases.length > 30 ? [`- …and ${failingCases.length - 30} more`] : [])].join("\n")
+        : "";
+
+    const coverage = !data.coverage
+        ? "pending (measured after the PR is opened; this description is updated when it is)"
+        : data.coverage.before !== undefined
+            ? `${formatPct(data.coverage.before)} → ${formatPct(data.coverage.after)} (${data.coverage.after >= data.coverage.before ? '+' : ''}${((data.coverage.after - data.coverage.before) * 100).toFixed(1)} pts${data.coverage.method ? `, ${data.coverage.method}` : ''})`
+            : `${formatPct(data.coverage.after)} with the new tests (baseline not measured${data.coverage.method ? `, ${data.coverage.method}` : ''})`;
+    const fileCoverage = (data.coverage?.files ?? []).map(file => `  - \`${file.file}\`: ${file.pct.toFixed(1)}% of ${file.unit} (${file.covered}/${file.total})`);
+
+    const framework = parseTestFramework(data.repoAnalysis?.testingFramework);
+    const generatedSources = new Set(generated.map(file => file.sourceFile));
+    const modules = (data.repoAnalysis?.sourceModules ?? []).filter(module => module.sourceFiles.some(file => [...generatedSources].some(source => source.endsWith(file) || file.endsWith(source))));
+    const planReasoning = [
+        ...(data.repoAnalysis?.selectionReason ? [data.repoAnalysis.selectionReason] : []),
+        ...modules.map(module => `- \`${module.modulePath}\` (${module.priority} priority)${module.priorityReason ? `: ${module.priorityReason}` : ''}`),
+    ].join("\n") || "_The plan did not record its reasoning._";
+
+    const specs = (data.testSpecs ?? [])
+        .filter(spec => generatedSources.has(spec.sourceFile))
+        .map(spec => [
+            `**${spec.sourceFile}**`,
+            ...spec.functions.map(f => `- \`${f.name}\`: ${f.testCases.length} planned case(s)`),
+        ].join("\n"))
+        .join("\n\n") || "_No specification available._";
+
+    const unexpected = data.unexpectedChanges ?? [];
+    const unexpectedChanges = unexpected.length > 0
+        ? [
+            "## ⚠️ Unexpected working-tree changes",
+            "The run left changes outside the generated test files. They were **not** committed; check whether the tests depend on them:",
+            ...unexpected.slice(0, 20).map(file => `- \`${file}\``),
+            ...(unexpected.length > 20 ? [`- …and ${unexpected.length - 20} more`] : []),
+        ].join("\n")
+        : "";
+
+    const checklist = [
+        checkbox(!!execution && tg?.quality.syntaxValid === true, "All test files load (measured)"),
+        checkbox(!!execution && tg?.quality.allPassing === true, "All tests pass in the sandbox (measured)"),
+        checkbox(notGenerated.length === 0, "Every planned source file has tests"),
+        checkbox(!!data.coverage && data.coverage.before !== undefined && data.coverage.after > data.coverage.before, "Coverage increased (measured)"),
+        checkbox(unexpected.length === 0, "No changes outside the test files"),
+    ].join("\n");
+
+    return {
+        projectId: data.projectId,
+        baseBranch: data.baseBranch,
+        branchName: data.branchName,
+        framework: framework ? getTestFrameworkProfile(framework).label : data.repoAnalysis?.testingFramework || "unit",
+        testFileCount: String(generated.length),
+        functionsCount: String(tg?.summary.totalFunctions ?? 0),
+        testCasesCount: String(tg?.summary.totalTestCases ?? 0),
+        testFiles,
+        notIncluded: notGenerated.length > 0
+            ? notGenerated.map(file => `\`${file.sourceFile}\`${file.skipped ? ' (budget)' : ''}`).join(', ')
+            : "none",
+        testRun,
+        failingTests,
+        coverage: [coverage, ...fileCoverage].join("\n"),
+        planReasoning,
+        specs,
+        checklist,
+        unexpectedChanges,
+    };
+}
+
+/**
+ * Fill a template. Unknown placeholders render empty and blank runs left by empty sections collapse.
+ */
+export function renderPrTemplate(template: PrTemplate, data: PrTemplateData): { title: string; body: string } {
+    const values = buildPrTemplateValues(data);
+    const fill = (text: string) => text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, key: string) => values[key] ?? '');
+    return {
+        title: fill(template.title).replace(/\s+/g, ' ').trim(),
+        body: fill(template.body).replace(/\n{3,}/g, "\n\n").trim(),
+    };
+}
+
+// =============================================================================
+// PUBLISHED PRS (per run)
+// =============================================================================
+
+// The PR a run opened or updated, kept until the coverage phase re-renders it with coverage.
+export interface PublishedPr {
+    ref: RepoRef;
+    number: number;
+    data: PrTemplateData;
+}
+
+const publishedPrs = new Map<string, PublishedPr>();
+
+export function rememberPublishedPr(runId: string | undefined, pr: PublishedPr): void {
+    if (runId) publishedPrs.set(runId, pr);
+}
+
+export function getPublishedPr(runId: string | undefined): PublishedPr | undefined {
+    return runId ? publishedPrs.get(runId) : undefined;
+}
+
+export function forgetPublishedPr(runId: string): void {
+    publishedPrs.delete(runId);
+}
@@ -0,0 +1,19 @@
+import type { RepoContext } from "../types";
+
+// Repository context from a project's last full context gathering. Incremental (diff-scoped)
+// runs reuse it instead of re-analysing the whole repository. Kept in memory, like run records.
+
+export interface SavedProjectContext {
+    repoContext: RepoContext;
+    savedAt: string;
+}
+
+const projectContexts = new Map<string, SavedProjectContext>();
+
+export function rememberProjectContext(projectId: string, repoContext: RepoContext): void {
+    projectContexts.set(projectId, { repoContext, savedAt: new Date().toISOString() });
+}
+
+export function getProjectContext(projectId: string | undefined): SavedProjectContext | undefined {
+    return projectId ? projectContexts.get(projectId) : undefined;
+}
@@ -0,0 +1,128 @@
+import {
+    GitHubReviewCommentSchema,
+    type GitHubReviewComment,
+    type RepoRef,
+    type ReviewFeedback,
+    type ReviewFollowUp,
+} from "../types";
+
+// Follow-up runs on bot PRs: reviewer comments arrive through the pull_request_review webhook,
+// a run revises the commented test files and replies on each thread. Review comments are a
+// GitHub feature; other hosts are not handled here.
+
+const GITHUB_API = "https://api.github.com";
+const COMMENTS_PER_PAGE = 100;
+const MAX_COMMENT_PAGES = 10;
+
+function githubHeaders(token: string): Record<string, string> {
+    return { 'Accept': 'application/vnd.github+json', 'Content-Type': 'application/json', 'Authorization': `token ${token}` };
+}
+
+function pullRequestKey(owner: string, repo: string, number: number): string {
+    return `${owner}/${repo}#${number}`.toLowerCase();
+}
+
+// =============================================================================
+// BOT PULL REQUESTS
+// =============================================================================
+
+// PRs opened or updated by this server, so review events can be traced back to a project.
+// Kept for the lifetime of the server process.
+const botPullRequests = new Map<string, string>();
+
+export function registerBotPullRequest(ref: RepoRef, number: number, projectId: string): void {
+    if (ref.provider !== "github") return;
+    botPullRequests.set(pullRequestKey(ref.owner, ref.repo, number), projectId);
+}
+
+export function getBotPullRequestProject(owner: string, repo: string, number: number): string | undefined {
+    return botPullRequests.get(pullRequestKey(owner, repo, number));
+}
+
+// =============================================================================
+// REVIEW COMMENTS
+// =============================================================================
+
+// Threads a follow-up run already took on; webhook redeliveries and later reviews skip them
+const handledComments = new Set<string>();
+
+function commentKey(owner: string, repo: string, commentId: number): string {
+    return `${owner}/${repo}:${commentId}`.toLowerCase();
+}
+
+export function markReviewCommentsHandled(owner: string, repo: string, commentIds: number[]): void {
+    for (const id of commentIds) handledComments.add(commentKey(owner, repo, id));
+}
+
+/**
+ * Review comments on a pull request, oldest first. Entries that do not parse are dropped.
+ */
+export async function listReviewComments(ref: RepoRef, token: string, prNumber: number): Promise<GitHubReviewComment[]> {
+    const comments: GitHubReviewComment[] = [];
+    for (let page = 1; page <= MAX_COMMENT_PAGES; page++) {
+        const res = await fetch(`${GITHUB_API}/repos/${ref.owner}/${ref.repo}/pulls/${prNumber}/comments?per_page=${COMMENTS_PER_PAGE}&page=${page}`, {
+            headers: githubHeaders(token),
+        });
+        if (!res.ok) {
+            const text = await res.text().catch(() => '');
+            throw new Error(`Listing review comments on #${prNumber} failed: ${res.status} ${text.substring(0, 300)}`);
+        }
+        const json = await res.json() as unknown[];
+        if (!Array.isArray(json)) break;
+        for (const item of json) {
+            const parsed = GitHubReviewCommentSchema.safeParse(item);
+            if (parsed.success) comments.push(parsed.data);
+        }
+        if (json.length < COMMENTS_PER_PAGE) break;
+    }
+    return comments;
+}
+
+/**
+ * Feedback a follow-up should act on: thread-starting comments by people (not bots), from the
+ * given review when one is named, that no earlier follow-up took on.
+ */
+export function toReviewFeedback(ref: RepoRef, comments: GitHubReviewComment[], reviewId?: number): ReviewFeedback[] {
+    return comments
+        .filter(comment => !comment.in_reply_to_id)
+        .filter(comment => comment.user.type !== 'Bot' && !comment.user.login.endsWith('[bot]'))
+        .filter(comment => reviewId === undefined || comment.pull_request_review_id === reviewId)
+        .filter(comment => !handledComments.has(commentKey(ref.owner, ref.repo, comment.id)))
+        .map((comment): ReviewFeedback => ({
+            commentId: comment.id,
+            testFile: comment.path,
+            startLine: comment.start_line ?? undefined,
+            line: comment.line ?? undefined,
+            body: comment.body,
+            diffHunk: comment.diff_hunk,
+            author: comment.user.login,
+        }));
+}
+
+export async function replyToReviewComment(ref: RepoRef, token: string, prNumber: number, commentId: number, body: string): Promise<boolean> {
+    const res = await fetch(`${GITHUB_API}/repos/${ref.owner}/${ref.repo}/pulls/${prNumber}/comments/${commentId}/replies`, {
+        method: 'POST',
+        headers: githubHeaders(token),
+        body: JSON.stringify({ body }),
+    });
+    return res.ok;
+}
+
+// =============================================================================
+// FOLLOW-UP RUNS
+// =============================================================================
+
+// What each follow-up run addresses, read by its steps by runId
+const followUps = new Map<string, ReviewFollowUp>();
+
+export function setReviewFollowUp(runId: string, followUp: ReviewFollowUp): void {
+    followUps.set(runId, followUp);
+}
+
+export function getReviewFollowUp(runId: string | undefined): ReviewFollowUp | undefined {
+    return runId ? followUps.get(runId) : undefined;
+}
+
+export function clearReviewFollowUp(runId: string): void {
+    followUps.delete(runId);
+}
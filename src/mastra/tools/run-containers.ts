@@ -0,0 +1,95 @@
+import { exec } from "child_process";
+
+// Labels stamped on every container the pipeline creates so ownership can be
+// resolved (and cleaned up) without relying on the container name.
+export const CONTAINER_LABEL_MANAGED = "yc.agent.managed";
+export const CONTAINER_LABEL_RUN_ID = "yc.agent.run-id";
+export const CONTAINER_LABEL_PROJECT_ID = "yc.agent.project-id";
+
+function sanitizeNamePart(value: string, maxLength: number): string {
+    const cleaned = value.toLowerCase().replace(/[^a-z0-9_.-]+/g, '-').replace(/^[^a-z0-9]+/, '').replace(/-+$/, '');
+    return cleaned.substring(0, maxLength) || 'x';
+}
+
+/**
+ * Container name unique to a run, e.g. yc-agent-my-project-1a2b3c4d.
+ * Falls back to a timestamp when the step runs outside a workflow run.
+ */
+export function getRunContainerName(runId: string | undefined, projectId: string | undefined): string {
+    const projectPart = sanitizeNamePart(projectId || 'project', 40);
+    const runPart = sanitizeNamePart(runId || `local-${Date.now()}`, 12);
+    return `yc-agent-${projectPart}-${runPart}`;
+}
+
+/**
+ * Named volume holding the run workspace (/app). It outlives container swaps
+ * (e.g. runtime provisioning) and is the only writable path besides tmpfs.
+ */
+export function getRunWorkspaceVolumeName(runId: string | undefined, projectId: string | undefined): string {
+    return `${getRunContainerName(runId, projectId)}-workspace`;
+}
+
+export function getRunContainerLabelArgs(runId: string | undefined, projectId: string | undefined): string {
+    const labels: Record<string, string> = {
+        [CONTAINER_LABEL_MANAGED]: "true",
+        [CONTAINER_LABEL_RUN_ID]: runId || "",
+        [CONTAINER_LABEL_PROJECT_ID]: projectId || "",
+    };
+    return Object.entries(labels)
+        .map(([key, value]) => `--label ${key}=${JSON.stringify(value)}`)
+        .join(' ');
+}
+
+export function shouldKeepRunContainers(): boolean {
+    return process.env.KEEP_RUN_CONTAINERS === 'true';
+}
+
+function removeRunVolumes(runId: string): Promise<void> {
+    return new Promise((resolve) => {
+        exec(`docker volume ls -q --filter label=${CONTAINER_LABEL_RUN_ID}=${runId}`, (listError, stdout) => {
+            const names = listError ? [] : stdout.split(/\s+/).map(s => s.trim()).filter(Boolean);
+            if (names.length === 0) {
+                resolve();
+                return;
+            }
+            exec(`docker volume rm -f ${names.join(' ')}`, () => resolve());
+        });
+    });
+}
+
+/**
+ * Remove every container (and workspace volume) labelled with the given run id.
+ * Returns the removed container ids.
+ */
+export function removeRunContainers(runId: string): Promise<string[]> {
+    return new Promise((resolve) => {
+        exec(`docker ps -aq --filter label=${CONTAINER_LABEL_RUN_ID}=${runId}`, (listError, stdout) => {
+            const ids = listError ? [] : stdout.split(/\s+/).map(s => s.trim()).filter(Boolean);
+            if (ids.length === 0) {
+                removeRunVolumes(runId).then(() => resolve([]));
+                return;
+            }
+            exec(`docker rm -f ${ids.join(' ')}`, (rmError) => {
+                removeRunVolumes(runId).then(() => resolve(rmError ? [] : ids));
+            });
+        });
+    });
+}
+
+/**
+ * Pause (or unpause) every running container labelled with the given run id, e.g. while the
+ * run is suspended. The workspace and tmpfs contents are kept. Returns the affected container ids.
+ */
+export function setRunContainersPaused(runId: string, paused: boolean): Promise<string[]> {
+    return new Promise((resolve) => {
+        const filter = `--filter label=${CONTAINER_LABEL_RUN_ID}=${runId} --filter status=${paused ? 'running' : 'paused'}`;
+        exec(`docker ps -q ${filter}`, (listError, stdout) => {
+            const ids = listError ? [] : stdout.split(/\s+/).map(s => s.trim()).filter(Boolean);
+            if (ids.length === 0) {
+                resolve([]);
+                return;
+            }
+            exec(`docker ${paused ? 'pause' : 'unpause'} ${ids.join(' ')}`, (error) => resolve(error ? [] : ids));
+        });
+    });
+}
@@ -0,0 +1,146 @@
+import type { ChildProcess } from "child_process";
+import { exec } from "child_process";
+import { notifyStepStatus } from "./alert-notifier";
+import { finishRun, getRun } from "./run-tracker";
+import { dequeueRun, releaseRunSlot } from "./run-queue";
+import { removeRunContainers } from "./run-containers";
+import { clearRunCredentials } from "./run-credentials";
+import { forgetPublishedPr } from "./pr-template";
+
+// Handle for a pipeline run that can still be stopped.
+interface ActiveRun {
+    runId: string;
+    controller: AbortController;
+    cancel?: () => unknown;
+    cancelled: boolean;
+}
+
+export interface CancelRunResult {
+    cancelled: boolean;
+    containerId?: string;
+    containerRemoved: boolean;
+    killedProcesses: number;
+    reason?: string;
+}
+
+const activeRuns = new Map<string, ActiveRun>();
+
+// Outstanding host-side child processes (docker exec, docker cp, ...) keyed by their command line.
+// Cancellation matches them by container id, so callers do not need to know the runId.
+const childProcesses = new Map<ChildProcess, string>();
+
+export function registerActiveRun(runId: string, cancel?: () => unknown): AbortSignal {
+    const existing = activeRuns.get(runId);
+    if (existing) {
+        if (cancel) existing.cancel = cancel;
+        return existing.controller.signal;
+    }
+    const controller = new AbortController();
+    activeRuns.set(runId, { runId, controller, cancel, cancelled: false });
+    return controller.signal;
+}
+
+export function unregisterActiveRun(runId: string): void {
+    activeRuns.delete(runId);
+}
+
+/**
+ * Abort signal for a run, passed to agent.generate so in-flight LLM loops stop on cancel.
+ */
+export function getRunAbortSignal(runId?: string): AbortSignal | undefined {
+    return runId ? activeRuns.get(runId)?.controller.signal : undefined;
+}
+
+export function isRunCancelled(runId?: string): boolean {
+    if (!runId) return false;
+    return activeRuns.get(runId)?.cancelled === true || getRun(runId)?.status === 'cancelled';
+}
+
+export function trackChildProcess(child: ChildProcess, cmd: string): ChildProcess {
+    childProcesses.set(child, cmd);
+    const release = () => { childProcesses.delete(child); };
+    child.once('exit', release);
+    child.once('error', release);
+    return child;
+}
+
+export function killContainerProcesses(containerId: string): number {
+    if (!containerId) return 0;
+    const shortId = containerId.substring(0, 12);
+    let killed = 0;
+    for (const [child, cmd] of childProcesses) {
+        if (!cmd.includes(containerId) && !cmd.includes(shortId)) continue;
+        try {
+            if (child.kill('SIGTERM')) killed++;
+        } catch { /* already gone */ }
+        childProcesses.delete(child);
+    }
+    return killed;
+}
+
+function removeContainer(containerId: string): Promise<boolean> {
+    return new Promise((resolve) => {
+        exec(`docker rm -f ${containerId}`, (error) => resolve(!error));
+    });
+}
+
+/**
+ * Stop a running pipeline: abort agent calls, cancel the Mastra run, interrupt
+ * outstanding docker processes for its container and remove the container.
+ */
+export async function cancelRun(runId: string, reason: string = "Cancelled by user"): Promise<CancelRunResult> {
+    const record = getRun(runId);
+    const active = activeRuns.get(runId);
+    const wasQueued = record?.status === 'queued';
+    const wasSuspended = record?.status === 'suspended';
+    if (!active && record?.status !== 'running' && !wasQueued && !wasSuspended) {
+        return { cancelled: false, containerRemoved: false, killedProcesses: 0, reason: `Run ${runId} is not running` };
+    }
+
+    // A resumed run may be queued for a slot again
+    if (wasQueued || wasSuspended) {
+        dequeueRun(runId, reason);
+    }
+
+    if (active) {
+        active.cancelled = true;
+        active.controller.abort(new Error(reason));
+        try {
+            // A queued run was never started, so there is no Mastra run to cancel
+            if (!wasQueued) await active.cancel?.();
+        } catch (err) {
+            console.warn(`[cancelRun] Mastra run cancel failed for ${runId}:`, err);
+        }
+    }
+
+    const containerId = record?.containerId;
+    let killedProcesses = 0;
+    let containerRemoved = false;
+    if (containerId) {
+        killedProcesses = killContainerProcesses(containerId);
+        containerRemoved = await removeContainer(containerId);
+    }
+    // Also sweep anything else labelled with this run (e.g. a container still being created)
+    const swept = await removeRunContainers(runId);
+    containerRemoved = containerRemoved || swept.length > 0;
+
+    await notifyStepStatus({
+        stepId: record?.currentStep || "fullPipelineWorkflow",
+        status: "cancelled",
+        runId,
+        containerId,
+        level: 'warning',
+        title: "Pipeline cancelled",
+        subtitle: reason,
+        metadata: { killedProcesses, containerRemoved },
+    });
+
+    finishRun(runId, 'cancelled', reason);
+    unregisterActiveRun(runId);
+    clearRunCredentials(runId);
+    forgetPublishedPr(runId);
+    // Free the slot now; the workflow promise may settle much later (or not at all)
+    releaseRunSlot(runId);
+
+    return { cancelled: true, containerId, containerRemoved, killedProcesses, reason };
+}
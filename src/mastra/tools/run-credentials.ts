@@ -0,0 +1,169 @@
+import { createInstallationToken, getAppBotIdentity, type GitIdentity } from "./github-app";
+import { getGitProvider } from "./git-providers";
+import type { RepoRef } from "../types";
+
+// Per-run secrets held only in server memory. Tokens never touch the host
+// filesystem or the container image: git receives them through environment
+// variables on the individual `docker exec` that needs them.
+
+export type RunCredentials =
+    // Personal/project access token for whichever provider hosts the repository
+    | { kind: 'pat'; token: string }
+    // GitHub App installation: the token is minted lazily and refreshed before it expires
+    | { kind: 'app'; installationId: string; token?: string; expiresAt?: string };
+
+const runCredentials = new Map<string, RunCredentials>();
+
+// In-flight installation token requests, so concurrent steps share one refresh
+const pendingRefreshes = new Map<string, Promise<string>>();
+
+// Installation tokens live ~1 hour; refresh when less than this remains
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+const DEFAULT_GIT_IDENTITY: GitIdentity = { name: "Mastra Bot", email: "mastra-bot@local" };
+
+// Environment variables read by the inline git credential helper inside the container.
+const GIT_USERNAME_ENV = "YC_GIT_USERNAME";
+const GIT_TOKEN_ENV = "YC_GIT_TOKEN";
+
+// Token shapes we redact even when the value is not registered (e.g. echoed by a tool).
+const TOKEN_PATTERNS: RegExp[] = [
+    /\b(ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{20,}\b/g,
+    /\bgithub_pat_[A-Za-z0-9_]{20,}\b/g,
+    /\bglpat-[A-Za-z0-9_-]{20,}\b/g,
+    /(x-access-token|oauth2|x-token-auth):[^@\s'"]+@/g,
+];
+
+const REDACTED = "***";
+
+export function setRunCredentials(runId: string, credentials: RunCredentials): void {
+    runCredentials.set(runId, credentials);
+}
+
+export function clearRunCredentials(runId: string): void {
+    runCredentials.delete(runId);
+    pendingRefreshes.delete(runId);
+}
+
+export function getRunAuthMode(runId?: string): RunCredentials['kind'] | undefined {
+    return runId ? runCredentials.get(runId)?.kind : undefined;
+}
+
+function getEnvGithubToken(): string | undefined {
+    const token = process.env.GITHUB_PAT || process.env.GITHUB_TOKEN || process.env.GH_TOKEN;
+    return token && token.trim() ? token.trim() : undefined;
+}
+
+function needsRefresh(credentials: Extract<RunCredentials, { kind: 'app' }>): boolean {
+    if (!credentials.token || !credentials.expiresAt) return true;
+    return Date.parse(credentials.expiresAt) - Date.now() < TOKEN_REFRESH_MARGIN_MS;
+}
+
+function refreshInstallationToken(runId: string, credentials: Extract<RunCredentials, { kind: 'app' }>): Promise<string> {
+    const pending = pendingRefreshes.get(runId);
+    if (pending) return pending;
+    const refresh = createInstallationToken(credentials.installationId)
+        .then(({ token, expiresAt }) => {
+            credentials.token = token;
+            credentials.expiresAt = expiresAt;
+            return token;
+        })
+        .finally(() => { pendingRefreshes.delete(runId); });
+    pendingRefreshes.set(runId, refresh);
+    return refresh;
+}
+
+/**
+ * Git hosting token for a run. App installations get a fresh installation token when the
+ * current one is missing or about to expire. Falls back to env
+ * (GITHUB_PAT | GITHUB_TOKEN | GH_TOKEN) so sub-workflows started from the playground still work.
+ */
+export async function getRunGitToken(runId?: string): Promise<string | undefined> {
+    const credentials = runId ? runCredentials.get(runId) : undefined;
+    if (credentials?.kind === 'pat') return credentials.token;
+    if (credentials?.kind === 'app' && runId) {
+        return needsRefresh(credentials) ? await refreshInstallationToken(runId, credentials) : credentials.token;
+    }
+    return getEnvGithubToken();
+}
+
+/**
+ * Commit author for a run: the app's bot user for installations, otherwise the generic bot identity.
+ */
+export async function getRunGitIdentity(runId?: string): Promise<GitIdentity> {
+    if (getRunAuthMode(runId) !== 'app') return DEFAULT_GIT_IDENTITY;
+    try {
+        return await getAppBotIdentity();
+    } catch {
+        return DEFAULT_GIT_IDENTITY;
+    }
+}
+
+/**
+ * `docker exec` flags and process env that let git authenticate against the repository
+ * host (GitHub by default) for this one command. The helper is passed via GIT_CONFIG_*
+ * so nothing is written to .git/config, it is scoped to that host, and `-e NAME`
+ * without a value keeps the token off the command line.
+ */
+export async function getGitCredentialExec(runId?: string, ref?: RepoRef): Promise<{ envArgs: string; env: NodeJS.ProcessEnv } | undefined> {
+    const providerKind = ref?.provider ?? "github";
+    if (getRunAuthMode(runId) === 'app' && providerKind !== "github") {
+        throw new Error(`GitHub App credentials cannot authenticate against ${providerKind} repositories`);
+    }
+    const token = await getRunGitToken(runId);
+    if (!token) return undefined;
+    const { username, password } = getGitProvider(providerKind).gitCredentials(token);
+    const helper = `!f() { test "$1" = get && echo "username=$${GIT_USERNAME_ENV}" && echo "password=$${GIT_TOKEN_ENV}"; }; f`;
+    const gitEnv: Record<string, string> = {
+        [GIT_USERNAME_ENV]: username,
+        [GIT_TOKEN_ENV]: password,
+        GIT_TERMINAL_PROMPT: "0",
+        GIT_CONFIG_COUNT: "1",
+        GIT_CONFIG_KEY_0: `credential.https://${ref?.host ?? "github.com"}.helper`,
+        GIT_CONFIG_VALUE_0: helper,
+    };
+    return {
+        envArgs: Object.keys(gitEnv).map(key => `-e ${key}`).join(' '),
+        env: { ...process.env, ...gitEnv },
+    };
+}
+
+/**
+ * Replace every known token (and anything shaped like a GitHub token) with ***.
+ */
+export function redactSecrets(text: string): string {
+    if (!text) return text;
+    let redacted = text;
+    const known = new Set<string>();
+    for (const { token } of runCredentials.values()) {
+        if (!token) continue;
+        known.add(token);
+        // Bitbucket "username:app_password" tokens: the password half is what git sees
+        if (token.includes(':')) known.add(token.substring(token.indexOf(':') + 1));
+    }
+    const envToken = getEnvGithubToken();
+    if (envToken) known.add(envToken);
+    for (const secret of known) {
+        if (secret.length >= 8) redacted = redacted.split(secret).join(REDACTED);
+    }
+    for (const pattern of TOKEN_PATTERNS) {
+        redacted = redacted.replace(pattern, (match) => match.includes('@') ? `${match.split(':')[0]}:${REDACTED}@` : REDACTED);
+    }
+    return redacted;
+}
+
+/**
+ * Deep variant of redactSecrets for alert metadata and other structured payloads.
+ */
+export function redactSecretsDeep<T>(value: T): T {
+    if (typeof value === 'string') return redactSecrets(value) as T;
+    if (Array.isArray(value)) return value.map(item => redactSecretsDeep(item)) as T;
+    if (value && typeof value === 'object') {
+        const out: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+            out[key] = redactSecretsDeep(item);
+        }
+        return out as T;
+    }
+    return value;
+}
@@ -0,0 +1,36 @@
+import type { PatchManifest, PrCoverage } from "../types";
+
+// Patch artifacts of dry runs, served by GET /runs/:runId/patch. Kept in memory like run
+// records, so they outlive the run's container but not the server process.
+
+export interface RunPatch {
+    /** `git format-patch` output: applies with `git am`, keeps message and author. */
+    patch: string;
+    /** Plain unified diff: applies with `git apply` or `patch -p1`. */
+    diff: string;
+    manifest: PatchManifest;
+}
+
+const patches = new Map<string, RunPatch>();
+const MAX_STORED_PATCHES = 100;
+
+export function storeRunPatch(runId: string, patch: RunPatch): void {
+    patches.set(runId, patch);
+    // Map preserves insertion order: drop the oldest artifacts first
+    for (const oldest of patches.keys()) {
+        if (patches.size <= MAX_STORED_PATCHES) break;
+        patches.delete(oldest);
+    }
+}
+
+export function getRunPatch(runId: string | undefined): RunPatch | undefined {
+    return runId ? patches.get(runId) : undefined;
+}
+
+/**
+ * Record coverage measured on the patched tree in the manifest.
+ */
+export function setRunPatchCoverage(runId: string | undefined, coverage: PrCoverage): void {
+    const stored = getRunPatch(runId);
+    if (stored) stored.manifest.coverage = coverage;
+}
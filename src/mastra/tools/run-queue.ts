@@ -0,0 +1,56 @@
+// Concurrency gate for pipeline runs. Each run holds one slot from the moment
+// its container is created until the workflow settles; extra runs wait FIFO.
+
+interface QueuedRun {
+    runId: string;
+    resolve: () => void;
+    reject: (err: Error) => void;
+}
+
+const runningSlots = new Set<string>();
+const waiting: QueuedRun[] = [];
+
+export function getMaxConcurrentRuns(): number {
+    const raw = Number(process.env.MAX_CONCURRENT_RUNS);
+    return Number.isFinite(raw) && raw >= 1 ? Math.floor(raw) : 2;
+}
+
+export function acquireRunSlot(runId: string): Promise<void> {
+    if (runningSlots.has(runId)) return Promise.resolve();
+    if (runningSlots.size < getMaxConcurrentRuns()) {
+        runningSlots.add(runId);
+        return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+        waiting.push({ runId, resolve, reject });
+    });
+}
+
+export function releaseRunSlot(runId: string): void {
+    runningSlots.delete(runId);
+    while (waiting.length > 0 && runningSlots.size < getMaxConcurrentRuns()) {
+        const next = waiting.shift()!;
+        runningSlots.add(next.runId);
+        next.resolve();
+    }
+}
+
+/**
+ * Drop a run that is still waiting for a slot. Its pending acquire is rejected.
+ */
+export function dequeueRun(runId: string, reason: string = "Run removed from queue"): boolean {
+    const index = waiting.findIndex(q => q.runId === runId);
+    if (index === -1) return false;
+    const [removed] = waiting.splice(index, 1);
+    removed.reject(new Error(reason));
+    return true;
+}
+
+export function getQueuePosition(runId: string): number | undefined {
+    const index = waiting.findIndex(q => q.runId === runId);
+    return index === -1 ? undefined : index + 1;
+}
+
+export function getRunQueueStats(): { running: number; queued: number; limit: number } {
+    return { running: runningSlots.size, queued: waiting.length, limit: getMaxConcurrentRuns() };
+}
@@ -0,0 +1,175 @@
+import z from "zod";
+import type { AlertEventPayload } from "./alert-notifier";
+
+export const RunStateSchema = z.enum(['queued', 'running', 'suspended', 'completed', 'failed', 'cancelled']);
+export type RunState = z.infer<typeof RunStateSchema>;
+
+// Per-step view derived from the alert stream (starting | in_progress | completed | failed | cancelled).
+export const RunStepRecordSchema = z.object({
+    stepId: z.string(),
+    status: z.string(),
+    title: z.string().optional(),
+    subtitle: z.string().optional(),
+    startedAt: z.string().datetime().optional(),
+    updatedAt: z.string().datetime(),
+    completedAt: z.string().datetime().optional(),
+    durationMs: z.number().optional(),
+});
+export type RunStepRecord = z.infer<typeof RunStepRecordSchema>;
+
+// Snapshot of a pipeline run as exposed by GET /runs/:runId.
+export const RunRecordSchema = z.object({
+    runId: z.string(),
+    projectId: z.string().optional(),
+    status: RunStateSchema,
+    currentStep: z.string().optional(),
+    queuePosition: z.number().optional(),
+    containerId: z.string().optional(),
+    steps: z.array(RunStepRecordSchema),
+    startedAt: z.string().datetime(),
+    finishedAt: z.string().datetime().optional(),
+    durationMs: z.number().optional(),
+    prUrl: z.string().optional(),
+    dryRun: z.boolean().optional(),
+    patchUrl: z.string().optional(),
+    coverage: z.record(z.unknown()).optional(),
+    failureReason: z.string().optional(),
+});
+export type RunRecord = z.infer<typeof RunRecordSchema>;
+
+// In-memory run registry. Runs live for the lifetime of the server process,
+// which matches how runIdToProjectId is kept in alert-notifier.
+const runs = new Map<string, RunRecord>();
+const MAX_TRACKED_RUNS = 500;
+
+function pruneRuns(): void {
+    if (runs.size <= MAX_TRACKED_RUNS) return;
+    // Map preserves insertion order: drop the oldest finished runs first
+    for (const [runId, record] of runs) {
+        if (runs.size <= MAX_TRACKED_RUNS) break;
+        if (record.status !== 'running' && record.status !== 'queued' && record.status !== 'suspended') runs.delete(runId);
+    }
+}
+
+export function trackRun(runId: string, projectId?: string, initialStatus: 'queued' | 'running' = 'running'): RunRecord {
+    const existing = runs.get(runId);
+    if (existing) {
+        if (projectId && !existing.projectId) existing.projectId = projectId;
+        return existing;
+    }
+    const record: RunRecord = {
+        runId,
+        projectId,
+        status: initialStatus,
+        steps: [],
+        startedAt: new Date().toISOString(),
+    };
+    runs.set(runId, record);
+    pruneRuns();
+    return record;
+}
+
+/**
+ * Fold an alert event into the run record. Called from sendAlertEvent so the
+ * status API sees exactly what the backend receives.
+ */
+export function recordRunEvent(event: AlertEventPayload): void {
+    if (!event.runId) return;
+    const record = trackRun(event.runId, event.projectId);
+    const now = event.timestamp || new Date().toISOString();
+
+    if (event.containerId) record.containerId = event.containerId;
+    if (!event.stepId || !event.status) return;
+
+    let step = record.steps.find(s => s.stepId === event.stepId);
+    if (!step) {
+        step = { stepId: event.stepId, status: event.status, updatedAt: now };
+        record.steps.push(step);
+    }
+    step.status = event.status;
+    step.title = event.title;
+    step.subtitle = event.subtitle;
+    step.updatedAt = now;
+    if (!step.startedAt) step.startedAt = now;
+    if (event.status === 'completed' || event.status === 'failed' || event.status === 'cancelled') {
+        step.completedAt = now;
+        step.durationMs = Date.parse(now) - Date.parse(step.startedAt);
+    }
+    record.currentStep = event.stepId;
+
+    const metadata = event.metadata || {};
+    if (typeof metadata.prUrl === 'string' && metadata.prUrl) record.prUrl = metadata.prUrl;
+    if (typeof metadata.patchUrl === 'string' && metadata.patchUrl) record.patchUrl = metadata.patchUrl;
+    if (metadata.coverage && typeof metadata.coverage === 'object') {
+        record.coverage = metadata.coverage as Record<string, unknown>;
+    }
+    if (event.status === 'failed' && !record.failureReason) {
+        record.failureReason = `${event.stepId}: ${event.subtitle}`;
+    }
+}
+
+/**
+ * Dry runs export a patch instead of pushing a branch and opening a PR.
+ */
+export function markRunDryRun(runId: string): void {
+    const record = runs.get(runId);
+    if (record) record.dryRun = true;
+}
+
+export function isDryRun(runId?: string): boolean {
+    return !!runId && runs.get(runId)?.dryRun === true;
+}
+
+export function markRunQueued(runId: string, queuePosition: number | undefined): void {
+    const record = runs.get(runId);
+    // A resumed run waits for a slot again while still suspended
+    if (!record || (record.status !== 'queued' && record.status !== 'suspended')) return;
+    record.queuePosition = queuePosition;
+}
+
+export function markRunStarted(runId: string): void {
+    const record = runs.get(runId);
+    if (!record || record.status !== 'queued') return;
+    record.status = 'running';
+    record.queuePosition = undefined;
+    // Time spent waiting for a slot is not part of the run duration
+    record.startedAt = new Date().toISOString();
+}
+
+// Paused (e.g. waiting for plan approval) without holding a slot or a running container.
+export function markRunSuspended(runId: string): void {
+    const record = runs.get(runId);
+    if (!record || record.status !== 'running') return;
+    record.status = 'suspended';
+}
+
+export function markRunResumed(runId: string): void {
+    const record = runs.get(runId);
+    if (!record || record.status !== 'suspended') return;
+    record.status = 'running';
+    record.queuePosition = undefined;
+}
+
+export function finishRun(runId: string, status: Exclude<RunState, 'queued' | 'running' | 'suspended'>, failureReason?: string): void {
+    const record = runs.get(runId);
+    if (!record) return;
+    // A cancelled run stays cancelled even if the workflow promise settles afterwards
+    if (record.status === 'cancelled') return;
+    const now = new Date().toISOString();
+    record.status = status;
+    record.queuePosition = undefined;
+    record.finishedAt = now;
+    record.durationMs = Date.parse(now) - Date.parse(record.startedAt);
+    if (status !== 'completed' && failureReason) record.failureReason = failureReason;
+    if (status === 'completed') record.failureReason = undefined;
+}
+
+export function getRun(runId: string): RunRecord | undefined {
+    return runs.get(runId);
+}
+
+export function listProjectRuns(projectId: string): RunRecord[] {
+    return Array.from(runs.values())
+        .filter(r => r.projectId === projectId)
+        .sort((a, b) => Date.parse(b.startedAt) - Date.parse(a.startedAt));
+}
@@ -0,0 +1,38 @@
+import type { RepoRef } from "../types";
+
+// Runs started by a webhook delivery rather than by a caller. Steps read the trigger by runId:
+// pull_request runs are scoped to the PR's changed files and report back on the PR.
+
+export type RunTrigger =
+    | {
+        kind: "push";
+        deliveryId?: string;
+        ref: RepoRef;
+        branch: string;
+        sha: string;
+    }
+    | {
+        kind: "pull_request";
+        deliveryId?: string;
+        ref: RepoRef;
+        number: number;
+        headRef: string;
+        headSha: string;
+        baseRef: string;
+        /** Source files the PR adds or modifies, relative to the repository root. */
+        changedFiles: string[];
+    };
+
+const triggers = new Map<string, RunTrigger>();
+
+export function setRunTrigger(runId: string, trigger: RunTrigger): void {
+    triggers.set(runId, trigger);
+}
+
+export function getRunTrigger(runId: string | undefined): RunTrigger | undefined {
+    return runId ? triggers.get(runId) : undefined;
+}
+
+export function clearRunTrigger(runId: string): void {
+    triggers.delete(runId);
+}
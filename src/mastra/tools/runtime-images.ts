@@ -0,0 +1,213 @@
+import { exec } from "child_process";
+import { trackChildProcess } from "./run-control";
+import type { RuntimeProfile } from "../types";
+
+// Base image used to clone the repository before the runtime is known.
+export const BASE_IMAGE = "yc-ubuntu:22.04";
+
+const SUPPORTED_NODE_VERSIONS = ["18", "20", "22"];
+const DEFAULT_NODE_VERSION = "20";
+const SUPPORTED_PYTHON_VERSIONS = ["3.9", "3.10", "3.11", "3.12", "3.13"];
+const DEFAULT_PYTHON_VERSION = "3.12";
+const SUPPORTED_GO_VERSIONS = ["1.21", "1.22", "1.23", "1.24"];
+const DEFAULT_GO_VERSION = "1.23";
+const SUPPORTED_JAVA_VERSIONS = ["11", "17", "21"];
+const DEFAULT_JAVA_VERSION = "17";
+const SUPPORTED_RUST_VERSIONS = ["1.74", "1.78", "1.82", "1.86"];
+// Most dependency trees need a recent compiler, so crates without a rust-version get the newest
+const DEFAULT_RUST_VERSION = "1.86";
+// Pinned so a cached image tag always holds the same tool; it must still build on the oldest supported toolchain
+const CARGO_LLVM_COV_VERSION = "0.6.0";
+
+type RuntimeLanguage = RuntimeProfile["language"];
+
+function sh(cmd: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const child = exec(cmd, { maxBuffer: 1024 * 1024 * 20 }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr || error.message));
+            } else {
+                resolve(stdout);
+            }
+        });
+        trackChildProcess(child, cmd);
+    });
+}
+
+function readRepoFile(containerId: string, repoPath: string, file: string): Promise<string | undefined> {
+    const target = `${repoPath}/${file}`;
+    return sh(`docker exec ${containerId} bash -lc ${JSON.stringify(`test -f ${JSON.stringify(target)} && cat ${JSON.stringify(target)} || true`)}`)
+        .then(out => out.trim() || undefined)
+        .catch(() => undefined);
+}
+
+// "3.10" -> [3, 10]; a missing minor counts as 0
+function parseVersion(version: string): [number, number] {
+    const [major = "0", minor = "0"] = version.split(".");
+    return [parseInt(major, 10), parseInt(minor, 10)];
+}
+
+function compareVersions(a: [number, number], b: [number, number]): number {
+    return a[0] - b[0] || a[1] - b[1];
+}
+
+/**
+ * Pick the closest supported version for a loose spec such as ">=18.17", "v20.11.0" or "^3.10".
+ * Lower bounds win, so the image runs the oldest supported version at or above the declared one;
+ * a declared version newer than every supported one gets the newest rather than an older one.
+ * Versions compare per component, so 3.10 sorts after 3.9.
+ */
+function pickVersion(spec: string | undefined, supported: string[], fallback: string): string {
+    if (!spec) return fallback;
+    const match = spec.match(/(\d+)(?:\.(\d+))?/);
+    if (!match) return fallback;
+    // Runtimes versioned by major only (Node, Java) ignore the declared minor
+    const majorOnly = !supported[0].includes(".");
+    const declared: [number, number] = [parseInt(match[1], 10), majorOnly ? 0 : parseInt(match[2] ?? "0", 10)];
+    const ascending = [...supported].sort((a, b) => compareVersions(parseVersion(a), parseVersion(b)));
+    return ascending.find(version => compareVersions(parseVersion(version), declared) >= 0) ?? ascending[ascending.length - 1];
+}
+
+export function getRuntimeImageTag(language: RuntimeLanguage, version: string | null): string {
+    if (language === "unknown" || !version) return BASE_IMAGE;
+    return `yc-runtime:${language}-${version}`;
+}
+
+function getRuntimeDockerfile(language: RuntimeLanguage, version: string): string {
+    switch (language) {
+        case "node":
+            return `FROM node:${version}-bookworm
+RUN command -v git >/dev/null || (apt-get update && apt-get install -y git && rm -rf /var/lib/apt/lists/*)
+WORKDIR /app
+CMD ["bash"]`;
+        case "python":
+            return `FROM python:${version}-bookworm
+RUN command -v git >/dev/null || (apt-get update && apt-get install -y git && rm -rf /var/lib/apt/lists/*)
+RUN python -m pip install --no-cache-dir --upgrade pip virtualenv
+WORKDIR /app
+CMD ["bash"]`;
+        case "java":
+            // Gradle image (JDK + Gradle for builds without a wrapper) with Maven added
+            return `FROM gradle:8-jdk${version}
+RUN apt-get update && apt-get install -y --no-install-recommends git maven && rm -rf /var/lib/apt/lists/*
+WORKDIR /app
+CMD ["bash"]`;
+        case "rust":
+            // llvm-tools and cargo-llvm-cov are baked in: the toolchain directories are read-only at run time.
+            // Login shells reset PATH, so the cargo binaries are linked into /usr/local/bin
+            return `FROM rust:${version}-bookworm
+RUN rustup component add llvm-tools-preview \\
+    && cargo install cargo-llvm-cov --locked --version ${CARGO_LLVM_COV_VERSION} \\
+    && rm -rf /usr/local/cargo/registry \\
+    && ln -sf /usr/local/cargo/bin/* /usr/local/bin/
+WORKDIR /app
+CMD ["bash"]`;
+        case "go":
+            return `FROM golang:${version}-bookworm
+RUN command -v git >/dev/null || (apt-get update && apt-get install -y git && rm -rf /var/lib/apt/lists/*)
+WORKDIR /app
+CMD ["bash"]`;
+        default:
+            throw new Error(`No runtime image defined for language '${language}'`);
+    }
+}
+
+/**
+ * Detect the repository runtime from manifest files inside the container.
+ */
+export async function detectRuntimeProfile(containerId: string, repoPath: string): Promise<Omit<RuntimeProfile, "image">> {
+    const packageJson = await readRepoFile(containerId, repoPath, "package.json");
+    if (packageJson) {
+        const nvmrc = await readRepoFile(containerId, repoPath, ".nvmrc")
+            || await readRepoFile(containerId, repoPath, ".node-version");
+        if (nvmrc) {
+            return { language: "node", version: pickVersion(nvmrc, SUPPORTED_NODE_VERSIONS, DEFAULT_NODE_VERSION), source: ".nvmrc" };
+        }
+        let engines: string | undefined;
+        try {
+            const pkg = JSON.parse(packageJson) as { engines?: { node?: string } };
+            engines = typeof pkg.engines?.node === 'string' ? pkg.engines.node : undefined;
+        } catch { /* ignore malformed package.json */ }
+        return {
+            language: "node",
+            version: pickVersion(engines, SUPPORTED_NODE_VERSIONS, DEFAULT_NODE_VERSION),
+            source: engines ? "package.json#engines" : null,
+        };
+    }
+
+    const goMod = await readRepoFile(containerId, repoPath, "go.mod");
+    if (goMod) {
+        // `toolchain go1.22.3` pins the toolchain more precisely than the `go 1.21` language version
+        const declared = goMod.match(/^toolchain\s+go(\d+\.\d+)/m)?.[1] || goMod.match(/^go\s+(\d+\.\d+)/m)?.[1];
+        return {
+            language: "go",
+            version: pickVersion(declared, SUPPORTED_GO_VERSIONS, DEFAULT_GO_VERSION),
+            source: declared ? "go.mod" : null,
+        };
+    }
+
+    const cargoToml = await readRepoFile(containerId, repoPath, "Cargo.toml");
+    if (cargoToml) {
+        // A pinned toolchain (rust-toolchain.toml or the legacy rust-toolchain file) wins over the crate's MSRV
+        const toolchain = await readRepoFile(containerId, repoPath, "rust-toolchain.toml")
+            || await readRepoFile(containerId, repoPath, "rust-toolchain");
+        const pinned = toolchain?.match(/^\s*(?:channel\s*=\s*["'])?(\d+\.\d+)/m)?.[1];
+        const declared = pinned || cargoToml.match(/^\s*rust-version\s*=\s*["'](\d+\.\d+)/m)?.[1];
+        return {
+            language: "rust",
+            version: pickVersion(declared, SUPPORTED_RUST_VERSIONS, DEFAULT_RUST_VERSION),
+            source: declared ? (pinned ? "rust-toolchain" : "Cargo.toml") : null,
+        };
+    }
+
+    const pom = await readRepoFile(containerId, repoPath, "pom.xml");
+    const gradleBuild = pom ? undefined : await readRepoFile(containerId, repoPath, "build.gradle.kts")
+        || await readRepoFile(containerId, repoPath, "build.gradle");
+    if (pom || gradleBuild) {
+        const declared = pom
+            ? pom.match(/<(?:maven\.compiler\.release|maven\.compiler\.source|java\.version|release)>\s*(?:1\.)?(\d+)/)?.[1]
+            : gradleBuild?.match(/JavaLanguageVersion\.of\(\s*(\d+)\s*\)/)?.[1]
+                || gradleBuild?.match(/(?:source|target)Compatibility\s*=\s*(?:JavaVersion\.VERSION_(?:1_)?|["']?(?:1\.)?)(\d+)/)?.[1];
+        return {
+            language: "java",
+            version: pickVersion(declared, SUPPORTED_JAVA_VERSIONS, DEFAULT_JAVA_VERSION),
+            source: declared ? (pom ? "pom.xml" : "build.gradle") : null,
+        };
+    }
+
+    const pythonVersionFile = await readRepoFile(containerId, repoPath, ".python-version");
+    const pyproject = await readRepoFile(containerId, repoPath, "pyproject.toml");
+    const hasPythonManifest = !!pyproject
+        || !!(await readRepoFile(containerId, repoPath, "setup.cfg"))
+        || !!(await readRepoFile(containerId, repoPath, "requirements.txt"));
+    if (pythonVersionFile || hasPythonManifest) {
+        if (pythonVersionFile) {
+            return { language: "python", version: pickVersion(pythonVersionFile, SUPPORTED_PYTHON_VERSIONS, DEFAULT_PYTHON_VERSION), source: ".python-version" };
+        }
+        const requires = pyproject?.match(/requires-python\s*=\s*["']([^"']+)["']/)?.[1]
+            || pyproject?.match(/^\s*python\s*=\s*["']([^"']+)["']/m)?.[1];
+        return {
+            language: "python",
+            version: pickVersion(requires, SUPPORTED_PYTHON_VERSIONS, DEFAULT_PYTHON_VERSION),
+            source: requires ? "pyproject.toml" : null,
+        };
+    }
+
+    return { language: "unknown", version: null, source: null };
+}
+
+/**
+ * Build the runtime image unless it is already cached locally. Returns the image tag.
+ */
+export async function ensureRuntimeImage(language: RuntimeLanguage, version: string | null): Promise<{ image: string; cached: boolean }> {
+    const image = getRuntimeImageTag(language, version);
+    if (image === BASE_IMAGE || !version) return { image, cached: true };
+
+    const exists = await sh(`docker image inspect ${image} >/dev/null 2>&1 && echo YES || echo NO`).catch(() => "NO");
+    if (exists.trim() === "YES") return { image, cached: true };
+
+    await sh(`docker build -t ${image} -<<'EOF'
+${getRuntimeDockerfile(language, version)}
+EOF`);
+    return { image, cached: false };
+}
@@ -0,0 +1,234 @@
+import { exec } from "child_process";
+import {
+    SandboxPolicySchema,
+    type SandboxNetworkMode,
+    type SandboxPhase,
+    type SandboxPolicy,
+    type SandboxPolicyOverride,
+} from "../types";
+
+const DEFAULT_SANDBOX_POLICY: SandboxPolicy = {
+    memory: "4g",
+    cpus: 2,
+    pidsLimit: 512,
+    diskSize: null,
+    readOnlyRoot: true,
+    tmpSize: "1g",
+    network: { install: "registries", test: "none" },
+};
+
+// Per-project overrides, kept for the lifetime of the server process.
+const projectPolicies = new Map<string, SandboxPolicyOverride>();
+
+// Sandbox state of each container started by a run, keyed by full container id.
+interface SandboxContainer {
+    containerId: string;
+    name?: string;
+    policy: SandboxPolicy;
+    network: string | null;
+    phase: SandboxPhase;
+    // Commands still running in the current phase; the network only switches once they finished
+    running: Set<Promise<void>>;
+    pending: Promise<void>;
+}
+
+const sandboxContainers = new Map<string, SandboxContainer>();
+
+let warnedMissingProxy = false;
+
+function sh(cmd: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        exec(cmd, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr || error.message));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+export function getDefaultSandboxPolicy(): SandboxPolicy {
+    return { ...DEFAULT_SANDBOX_POLICY, network: { ...DEFAULT_SANDBOX_POLICY.network } };
+}
+
+export function getProjectSandboxPolicy(projectId: string | undefined): SandboxPolicy {
+    const defaults = getDefaultSandboxPolicy();
+    const override = projectId ? projectPolicies.get(projectId) : undefined;
+    if (!override) return defaults;
+    return SandboxPolicySchema.parse({
+        ...defaults,
+        ...override,
+        network: { ...defaults.network, ...(override.network || {}) },
+    });
+}
+
+export function setProjectSandboxPolicy(projectId: string, override: SandboxPolicyOverride): SandboxPolicy {
+    projectPolicies.set(projectId, override);
+    return getProjectSandboxPolicy(projectId);
+}
+
+export function clearProjectSandboxPolicy(projectId: string): boolean {
+    return projectPolicies.delete(projectId);
+}
+
+function getEgressProxy(): { network: string; proxyUrl: string } | undefined {
+    const network = process.env.SANDBOX_EGRESS_NETWORK;
+    const proxyUrl = process.env.SANDBOX_EGRESS_PROXY;
+    return network && proxyUrl ? { network, proxyUrl } : undefined;
+}
+
+/**
+ * Docker network a mode maps to, or null for no network.
+ * Without a configured egress proxy, 'registries' degrades to the default bridge.
+ */
+function resolveNetwork(mode: SandboxNetworkMode): string | null {
+    if (mode === "none") return null;
+    if (mode === "full") return "bridge";
+    const egress = getEgressProxy();
+    if (egress) return egress.network;
+    if (!warnedMissingProxy) {
+        warnedMissingProxy = true;
+        console.warn("[sandbox] SANDBOX_EGRESS_NETWORK/SANDBOX_EGRESS_PROXY not set; 'registries' network mode falls back to unrestricted bridge");
+    }
+    return "bridge";
+}
+
+/**
+ * Whether a phase of the policy asks for 'registries' egress while no egress proxy is configured,
+ * so it actually runs on the unrestricted bridge.
+ */
+export function isRegistriesModeUnrestricted(policy: SandboxPolicy): boolean {
+    return !getEgressProxy() && (policy.network.install === "registries" || policy.network.test === "registries");
+}
+
+/**
+ * Arguments for `docker run` applying the policy. The container starts in the install phase.
+ */
+export function getSandboxRunArgs(policy: SandboxPolicy, workspaceVolume: string): string {
+    const args: string[] = [
+        `--memory ${policy.memory}`,
+        `--memory-swap ${policy.memory}`,
+        `--cpus ${policy.cpus}`,
+        `--pids-limit ${policy.pidsLimit}`,
+        `--security-opt no-new-privileges`,
+        `-v ${workspaceVolume}:/app`,
+    ];
+    if (policy.diskSize) {
+        args.push(`--storage-opt size=${policy.diskSize}`);
+    }
+    if (policy.readOnlyRoot) {
+        args.push(
+            `--read-only`,
+            `--tmpfs /tmp:rw,exec,size=${policy.tmpSize}`,
+            `--tmpfs /root:rw,exec,size=${policy.tmpSize}`,
+        );
+    }
+
+    const egress = getEgressProxy();
+    const usesRegistries = policy.network.install === "registries" || policy.network.test === "registries";
+    if (egress && usesRegistries) {
+        for (const key of ["HTTP_PROXY", "HTTPS_PROXY", "http_proxy", "https_proxy"]) {
+            args.push(`-e ${key}=${egress.proxyUrl}`);
+        }
+        args.push(`-e NO_PROXY=localhost,127.0.0.1`, `-e no_proxy=localhost,127.0.0.1`);
+    }
+
+    // Containers attached to no network at creation can never be connected later,
+    // so start on whichever phase network exists and switch on the first command
+    const initial = resolveNetwork(policy.network.install) ?? resolveNetwork(policy.network.test);
+    args.push(`--network ${initial ?? "none"}`);
+    return args.join(' ');
+}
+
+export function registerSandboxContainer(containerId: string, policy: SandboxPolicy, name?: string): void {
+    const initial = resolveNetwork(policy.network.install) ?? resolveNetwork(policy.network.test);
+    sandboxContainers.set(containerId, {
+        containerId,
+        name,
+        policy,
+        network: initial,
+        phase: "install",
+        running: new Set(),
+        pending: Promise.resolve(),
+    });
+}
+
+export function unregisterSandboxContainer(containerId: string): void {
+    sandboxContainers.delete(containerId);
+}
+
+function findSandboxContainer(containerRef: string): SandboxContainer | undefined {
+    const ref = containerRef.trim();
+    if (!ref) return undefined;
+    const direct = sandboxContainers.get(ref);
+    if (direct) return direct;
+    for (const entry of sandboxContainers.values()) {
+        if (entry.containerId.startsWith(ref) || entry.name === ref) return entry;
+    }
+    return undefined;
+}
+
+const INSTALL_COMMAND_PATTERN = /^(npm\s+(ci|install|i)\b|pnpm\s+(install|i)\b|yarn(\s+install)?\s*$|pip3?\s+install\b|python3?\s+-m\s+pip\s+install\b|poetry\s+install\b|uv\s+(sync|pip\s+install)\b|git\s+(clone|fetch|pull|push|ls-remote)\b)/;
+
+/**
+ * Phase of a raw shell command. Only a lone install or git remote command (optionally after
+ * `cd <dir> &&` and with its output redirected) gets the install network; anything chained,
+ * piped or substituted next to it runs in the test phase.
+ */
+export function getCommandPhase(cmd: string): SandboxPhase {
+    const command = cmd.trim()
+        .replace(/^(cd\s+[^;&|`$()<>\n]+?\s*&&\s*)+/, "")
+        .replace(/\s*\d*>&\d+/g, "");
+    if (/[;&|`\n]|\$\(/.test(command)) return "test";
+    return INSTALL_COMMAND_PATTERN.test(command) ? "install" : "test";
+}
+
+async function switchSandboxNetwork(entry: SandboxContainer, phase: SandboxPhase): Promise<void> {
+    const target = resolveNetwork(entry.policy.network[phase]);
+    if (target !== entry.network) {
+        if (entry.network) {
+            await sh(`docker network disconnect ${entry.network} ${entry.containerId}`).catch(() => undefined);
+        }
+        if (target) {
+            await sh(`docker network connect ${target} ${entry.containerId}`);
+        }
+        entry.network = target;
+    }
+    entry.phase = phase;
+}
+
+/**
+ * Run `command` with the container on the network of `phase`. Commands of the same phase run
+ * side by side; one for the other phase waits until they finished before the network switches,
+ * so concurrent agents sharing a container never run repository code on the install network.
+ * A failed switch fails the command rather than running it on the wrong network.
+ */
+export function withSandboxPhase<T>(containerRef: string, phase: SandboxPhase, command: () => Promise<T>): Promise<T> {
+    const entry = findSandboxContainer(containerRef);
+    if (!entry) return command();
+
+    let result!: Promise<T>;
+    const turn = entry.pending.then(async () => {
+        if (entry.phase !== phase) {
+            await Promise.all(entry.running);
+            await switchSandboxNetwork(entry, phase).catch((err) => {
+                throw new Error(`Failed to switch ${entry.containerId.substring(0, 12)} to ${phase} network: ${err instanceof Error ? err.message : String(err)}`);
+            });
+        }
+        result = command();
+        const settled = result.then(() => undefined, () => undefined);
+        entry.running.add(settled);
+        void settled.then(() => entry.running.delete(settled));
+    });
+    entry.pending = turn.catch(() => undefined);
+    return turn.then(() => result);
+}
+
+/**
+ * Run a raw shell command in a run container under the network of its phase: installs get
+ * registry access, everything else runs under the test-phase network policy.
+ */
+export function runSandboxedCommand<T>(containerRef: string, cmd: string, command: () => Promise<T>): Promise<T> {
+    return withSandboxPhase(containerRef, getCommandPhase(cmd), command);
+}
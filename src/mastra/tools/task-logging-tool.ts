@@ -1,19 +1,79 @@
 import { createTool } from "@mastra/core";
 import z from "zod";
+import { notifyStepStatus } from "./alert-notifier";
+
+const TaskStatusSchema = z.enum(['started', 'completed', 'failed', 'planning', 'coding', 'validating']);
 
 // Task status tracking
 export interface TaskEvent {
     agentId: string;
     taskId: string;
     taskName: string;
-    status: 'started' | 'completed' | 'failed' | 'planning' | 'coding' | 'validating';
+    status: z.infer<typeof TaskStatusSchema>;
     timestamp: Date;
     metadata?: Record<string, any>;
 }
 
+// Run/step a task belongs to, so task events can be forwarded to the alert stream.
+export interface TaskContext {
+    runId?: string;
+    projectId?: string;
+    containerId?: string;
+    stepId: string;
+}
+
 // In-memory task tracking (could be replaced with persistent storage)
 export const taskEvents: TaskEvent[] = [];
 
+const taskContexts = new Map<string, TaskContext>();
+
+/**
+ * Associate task ids with a run before handing them to agents. Task ids must be unique
+ * across concurrent runs (prefix them with the run id).
+ */
+export function registerTaskContext(taskId: string, context: TaskContext): void {
+    taskContexts.set(taskId, context);
+}
+
+/**
+ * Forget a run's tasks and their events once its generation phase is over.
+ */
+export function clearTaskContexts(taskIds: string[]): void {
+    const ids = new Set(taskIds);
+    for (const taskId of ids) taskContexts.delete(taskId);
+    for (let i = taskEvents.length - 1; i >= 0; i--) {
+        if (ids.has(taskEvents[i].taskId)) taskEvents.splice(i, 1);
+    }
+}
+
+/**
+ * Record a task event and, when the task belongs to a registered run, post it as an
+ * in-progress alert. Used by the task_logging tool and directly by workflows.
+ */
+export async function logTaskEvent(event: Omit<TaskEvent, 'timestamp'>): Promise<TaskEvent> {
+    const recorded: TaskEvent = { ...event, timestamp: new Date(), metadata: event.metadata ?? {} };
+    taskEvents.push(recorded);
+
+    // Log to console for immediate visibility
+    console.log(`[${recorded.timestamp.toISOString()}] Agent:${recorded.agentId} | Task:${recorded.taskId} (${recorded.taskName}) | Status:${recorded.status}`);
+
+    const context = taskContexts.get(recorded.taskId);
+    if (context) {
+        await notifyStepStatus({
+            stepId: context.stepId,
+            status: "in_progress",
+            runId: context.runId,
+            projectId: context.projectId,
+            containerId: context.containerId,
+            title: `${recorded.agentId}: ${recorded.taskName}`,
+            subtitle: recorded.status,
+            level: recorded.status === 'failed' ? 'warning' : 'info',
+            metadata: { agentId: recorded.agentId, taskId: recorded.taskId, taskStatus: recorded.status, ...recorded.metadata },
+        });
+    }
+    return recorded;
+}
+
 export const taskLoggingTool = createTool({
     id: "task_logging",
     description: "Log agent task events for tracking and coordination",
@@ -21,32 +81,25 @@ export const taskLoggingTool = createTool({
         agentId: z.string().describe("Unique identifier for the agent"),
         taskId: z.string().describe("Unique identifier for the task"),
         taskName: z.string().describe("Human-readable task name"),
-        status: z.enum(['started', 'completed', 'failed', 'planning', 'coding', 'validating']).describe("Current task status"),
-
+        status: TaskStatusSchema.describe("Current task status"),
+        message: z.string().optional().describe("Short progress note, e.g. what is being coded or validated"),
     }),
     execute: async ({ context }) => {
-        const { agentId, taskId, taskName, status } = context;
+        const { agentId, taskId, taskName, status, message } = context;
         
-        const event: TaskEvent = {
+        const event = await logTaskEvent({
             agentId,
             taskId,
             taskName,
             status,
-            timestamp: new Date(),
-            metadata: {}
-        };
-        
-        taskEvents.push(event);
-        
-        // Log to console for immediate visibility
-        const timestamp = event.timestamp.toISOString();
-        console.log(`[${timestamp}] Agent:${agentId} | Task:${taskId} (${taskName}) | Status:${status}`);
+            metadata: message ? { message } : {},
+        });
         
         return {
             success: true,
             message: `Task event logged: ${agentId}/${taskId} - ${status}`,
             eventId: taskEvents.length - 1,
-            timestamp: timestamp
+            timestamp: event.timestamp.toISOString()
         };
     },
 });
@@ -82,5 +135,6 @@ export function getActiveTasksForAgent(agentId: string): TaskEvent[] {
 
 export function clearTaskHistory(): void {
     taskEvents.length = 0;
+    taskContexts.clear();
     console.log('Task history cleared');
 }
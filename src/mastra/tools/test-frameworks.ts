@@ -0,0 +1,1113 @@
+import { exec } from "child_process";
+import { trackChildProcess } from "./run-control";
+import { TestFrameworkSchema, type CoverageStats, type DetectedTestFramework, type FileCoverage, type TestFramework } from "../types";
+
+// Test framework of the repository under test. Detection reads the runner config and the
+// package manifests inside the container; a profile carries everything that differs between
+// frameworks: prompt idioms, where test files go, dependency setup, the runner command with its
+// structured report, and the coverage command.
+
+const CONFIG_MARKER = "__MASTRA_TEST_FRAMEWORK__";
+const MAX_CONFIG_CHARS = 20000;
+
+const VITEST_CONFIG_FILES = ["vitest.config.ts", "vitest.config.mts", "vitest.config.cts", "vitest.config.js", "vitest.config.mjs", "vitest.config.cjs"];
+const JEST_CONFIG_FILES = ["jest.config.ts", "jest.config.mts", "jest.config.cts", "jest.config.js", "jest.config.mjs", "jest.config.cjs", "jest.config.json"];
+const BABEL_CONFIG_FILES = ["babel.config.js", "babel.config.cjs", "babel.config.mjs", "babel.config.json", ".babelrc", ".babelrc.js", ".babelrc.cjs", ".babelrc.json"];
+const PYTHON_MANIFEST_FILES = ["pyproject.toml", "setup.cfg", "setup.py", "requirements.txt", "pytest.ini"];
+// Files that can hold pytest settings, in pytest's own lookup order
+const PYTEST_CONFIG_FILES: { file: string; section?: RegExp }[] = [
+    { file: "pytest.ini" },
+    { file: "pyproject.toml", section: /^\[tool\.pytest\.ini_options\]/m },
+    { file: "tox.ini", section: /^\[pytest\]/m },
+    { file: "setup.cfg", section: /^\[tool:pytest\]/m },
+];
+// Maven wins over Gradle when a repository carries both builds
+const JVM_BUILD_FILES = ["pom.xml", "build.gradle.kts", "build.gradle"];
+// Test dependency coordinates looked up in the build files and the Gradle version catalog
+const JVM_LIBRARY_PATTERN = "junit-jupiter|mockito|assertj|spring-boot-starter-test";
+// Directories that never hold the package under test
+const NON_PACKAGE_DIRS = new Set(["tests", "test", "testing", "docs", "doc", "examples", "example", "scripts", "benchmarks", "build", "dist", "venv", "node_modules"]);
+
+// Python tooling lives outside the checkout (on the workspace volume) so it never shows up as a change
+const PYTHON_VENV = "/app/.mastra-venv";
+const PYTEST_COVERAGE_REPORT = "/tmp/mastra-pytest-coverage.json";
+const PYTEST_COVERAGE_DATA = "/tmp/mastra-pytest-coverage.data";
+const GO_PATH = "/app/.mastra-go";
+const GO_COVER_PROFILE = "/tmp/mastra-go-coverage.out";
+const MAVEN_HOME = "/app/.mastra-m2";
+const GRADLE_HOME = "/app/.mastra-gradle";
+const GRADLE_INIT_SCRIPT = "/tmp/mastra-init.gradle";
+const JACOCO_VERSION = "0.8.12";
+const JACOCO_REPORT = "/tmp/mastra-jacoco.xml";
+const CARGO_HOME = "/app/.mastra-cargo";
+const LLVM_COV_REPORT = "/tmp/mastra-llvm-cov.json";
+
+// Repositories without any test setup get Vitest, as before detection existed
+const DEFAULT_TEST_FRAMEWORK: DetectedTestFramework = { framework: "vitest" };
+
+function sh(cmd: string): Promise<{ stdout: string; stderr: string }> {
+    return new Promise((resolve) => {
+        const child = exec(cmd, { maxBuffer: 1024 * 1024 * 20 }, (error, stdout, stderr) => {
+            if (error) {
+                resolve({ stdout: stdout + (stderr || ''), stderr: stderr || error.message });
+            } else {
+                resolve({ stdout, stderr });
+            }
+        });
+        trackChildProcess(child, cmd);
+    });
+}
+
+function shellEscape(str: string): string {
+    return "'" + String(str).replace(/'/g, "'\"'\"'") + "'";
+}
+
+function escapeRegExp(str: string): string {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Coverage measured by a framework that writes a machine-readable report.
+ */
+export interface MeasuredCoverage {
+    coverage: number;
+    stats: CoverageStats;
+    files: number;
+    /** Per source file, when the report has it */
+    fileCoverage?: FileCoverage[];
+}
+
+interface PackageJson {
+    scripts?: Record<string, string>;
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+    jest?: unknown;
+}
+
+// =============================================================================
+// PROFILES
+// =============================================================================
+
+export interface TestFrameworkProfile {
+    id: TestFramework;
+    label: string;
+    language: string;
+    /** Import line(s) every generated test file (or inline tests module) starts with */
+    imports: string;
+    /** Mocking idioms the generation and retry prompts ask for */
+    mocking: string[];
+    /** Set when tests live in the source file itself: how the coder agent writes that file back */
+    inlineTests?: string;
+    /** Skeleton shown to the coder agent */
+    example: string;
+    /** Where test files go, for the planning prompt */
+    layout: string;
+    /** Planning step listing the source files to choose from (projectDir is the checkout) */
+    discoverSources(projectDir: string, detected: DetectedTestFramework): string;
+    /** Test file for a source file, relative to the repository root */
+    testFilePath(sourceFile: string, testDirectory: string): string;
+    /** Packages the runner needs, beyond the repository's own dependencies */
+    packages(detected: DetectedTestFramework): string[];
+    /** Shell script (run in the repository) installing dependencies and the runner */
+    installScript(detected: DetectedTestFramework): string;
+    /** Shell command running the given test files (paths relative to the repository root) */
+    testCommand(testFiles: string[], detected: DetectedTestFramework): string;
+    /** Flags writing the structured report to reportFile */
+    reportArgs(reportFile: string): string;
+    /** Shape of that report: jest-compatible JSON, pytest-json-report, the `go test -json` event stream, JUnit XML or cargo test's text output */
+    reportFormat: "jest-json" | "pytest-json" | "go-test-json" | "junit-xml" | "cargo-test";
+    /** The report is the runner's stdout rather than a file it writes */
+    reportOnStdout?: boolean;
+    /** Gathers the report into reportFile after the run, for runners that write one file per suite */
+    collectReport?(reportFile: string): string;
+    /** Coverage over the whole suite, skipping the excluded test files */
+    coverageCommand(excludedTestFiles: string[], detected: DetectedTestFramework): string;
+    /** Report the coverage command writes, read without an agent; node runners leave it to the coverage agent */
+    coverageReport?: { file: string; parse(raw: string, detected: DetectedTestFramework): MeasuredCoverage | null };
+}
+
+// src/foo/bar.ts -> tests/foo/bar.test.ts
+function jsTestFilePath(sourceFile: string, testDirectory: string): string {
+    return sourceFile
+        .replace(/^src\//, `${testDirectory}/`)
+        .replace(/\.(ts|tsx|js|jsx|mts|cts)$/, '.test.$1');
+}
+
+/**
+ * Installs the repository's npm dependencies, then the runner packages it does not provide in
+ * one npm call (--no-save keeps package.json and the lockfile out of the generated change set).
+ */
+function npmInstallScript(packages: string[]): string {
+    const checks = packages.map(pkg => `[ -d node_modules/${pkg} ] || missing="$missing ${pkg}"`).join("; ");
+    return `if [ ! -d node_modules ]; then npm ci || npm install; fi; missing=""; ${checks}; if [ -n "$missing" ]; then npm install --no-save $missing; fi`;
+}
+
+const vitestProfile: TestFrameworkProfile = {
+    id: "vitest",
+    label: "Vitest",
+    language: "TypeScript",
+    imports: "import { vi, expect, describe, it, beforeEach, afterEach } from 'vitest';",
+    mocking: [
+        "Mock modules with vi.mock('module', () => ({ ... })); calls are hoisted above the imports",
+        "Create spies with vi.fn() / vi.spyOn() and type them with vi.mocked(fn)",
+        "Reset mocks in hooks with vi.clearAllMocks() / vi.resetAllMocks()",
+    ],
+    example: `import { vi, expect, describe, it, beforeEach, afterEach } from 'vitest';
+import type { Mock } from 'vitest';
+
+// Import source modules and types
+import { [ACTUAL_IMPORTS_FROM_SOURCE] } from '[ACTUAL_IMPORT_PATH]';
+
+// Mock external dependencies
+vi.mock('child_process', () => ({
+  exec: vi.fn(),
+}));
+
+vi.mock('@mastra/core', () => ({
+  // Mock actual exports based on source analysis
+}));
+
+describe('[MODULE_NAME]', () => {
+  // Proper mock typing
+  const mockExec = vi.mocked(require('child_process').exec);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('[FUNCTION_NAME]', () => {
+    it('should handle successful execution with valid parameters', async () => {
+      // Comprehensive positive test case
+    });
+
+    it('should reject with proper error when execution fails', async () => {
+      // Error condition testing
+    });
+
+    it('should validate input parameters and throw on invalid input', () => {
+      // Input validation testing
+    });
+
+    // Additional test cases based on function complexity
+  });
+});`,
+    layout: "Separate test directory structure (tests/ parallel to src/)",
+    discoverSources: (projectDir) => `Analyze source directories and scan for modules: docker_exec find ${projectDir}/src -name "*.ts" -type f | head -20`,
+    testFilePath: jsTestFilePath,
+    packages: () => ["vitest"],
+    installScript: () => npmInstallScript(["vitest"]),
+    testCommand: (testFiles) => `npx vitest run ${testFiles.map(shellEscape).join(" ")}`,
+    reportArgs: (reportFile) => `--reporter=json --outputFile=${reportFile}`,
+    reportFormat: "jest-json",
+    coverageCommand: (excludedTestFiles) =>
+        ["npx vitest run --coverage", ...excludedTestFiles.map(file => `--exclude ${shellEscape(file)}`)].join(" "),
+};
+
+// ts-jest without a config file of its own is applied as a preset on the command line
+function jestPresetArgs(detected: DetectedTestFramework): string {
+    return !detected.configFile && detected.transform === "ts-jest" ? " --preset ts-jest" : "";
+}
+
+const jestProfile: TestFrameworkProfile = {
+    id: "jest",
+    label: "Jest",
+    language: "TypeScript",
+    imports: "import { jest, expect, describe, it, beforeEach, afterEach } from '@jest/globals';",
+    mocking: [
+        "Mock modules with jest.mock('module', () => ({ ... })); calls are hoisted above the imports, so factories may only reference variables prefixed with 'mock'",
+        "Create spies with jest.fn() / jest.spyOn() and type them with jest.mocked(fn)",
+        "Reset mocks in hooks with jest.clearAllMocks() / jest.resetAllMocks()",
+        "Never use vi.* or import from 'vitest'",
+    ],
+    example: `import { jest, expect, describe, it, beforeEach, afterEach } from '@jest/globals';
+import { exec } from 'child_process';
+
+// Import source modules and types
+import { [ACTUAL_IMPORTS_FROM_SOURCE] } from '[ACTUAL_IMPORT_PATH]';
+
+// Mock external dependencies (hoisted above the imports)
+jest.mock('child_process', () => ({
+  exec: jest.fn(),
+}));
+
+jest.mock('@mastra/core', () => ({
+  // Mock actual exports based on source analysis
+}));
+
+describe('[MODULE_NAME]', () => {
+  // Proper mock typing
+  const mockExec = jest.mocked(exec);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  describe('[FUNCTION_NAME]', () => {
+    it('should handle successful execution with valid parameters', async () => {
+      // Comprehensive positive test case
+    });
+
+    it('should reject with proper error when execution fails', async () => {
+      // Error condition testing
+    });
+
+    it('should validate input parameters and throw on invalid input', () => {
+      // Input validation testing
+    });
+
+    // Additional test cases based on function complexity
+  });
+});`,
+    layout: "Separate test directory structure (tests/ parallel to src/)",
+    discoverSources: (projectDir) => `Analyze source directories and scan for modules: docker_exec find ${projectDir}/src -name "*.ts" -type f | head -20`,
+    testFilePath: jsTestFilePath,
+    packages: (detected) => detected.transform === "ts-jest" && !detected.configFile ? ["jest", "ts-jest", "typescript"] : ["jest"],
+    installScript: (detected) => npmInstallScript(jestProfile.packages(detected)),
+    testCommand: (testFiles, detected) => `npx jest --ci --coverage=false${jestPresetArgs(detected)} --runTestsByPath ${testFiles.map(shellEscape).join(" ")}`,
+    reportArgs: (reportFile) => `--json --outputFile=${reportFile}`,
+    reportFormat: "jest-json",
+    coverageCommand: (excludedTestFiles, detected) =>
+        [
+            `npx jest --ci --coverage${jestPresetArgs(detected)}`,
+            // Replaces Jest's default ignore list, so node_modules is listed again
+            ...["/node_modules/", ...excludedTestFiles.map(escapeRegExp)].map(pattern => `--testPathIgnorePatterns=${shellEscape(pattern)}`),
+        ].join(" "),
+};
+
+// src/pkg/mod.py -> tests/pkg/test_mod.py
+function pythonTestFilePath(sourceFile: string, testDirectory: string): string {
+    const relative = sourceFile.replace(/^src\//, "");
+    const dir = relative.includes("/") ? relative.substring(0, relative.lastIndexOf("/") + 1) : "";
+    const base = relative.substring(dir.length).replace(/\.py$/, "");
+    return `${testDirectory}/${dir}test_${base}.py`;
+}
+
+// Source roots on sys.path: the parents of the packages under test, and the repository root
+function pythonPath(detected: DetectedTestFramework): string {
+    const roots = (detected.packages ?? []).map(pkg => pkg.includes("/") ? pkg.substring(0, pkg.lastIndexOf("/")) : ".");
+    return [...new Set([...roots, "."])].join(":");
+}
+
+// No bytecode or pytest cache in the checkout, and the repository's sources ahead of any installed copy
+function pytestEnv(detected: DetectedTestFramework): string {
+    return `PYTHONDONTWRITEBYTECODE=1 PYTHONPATH=${shellEscape(pythonPath(detected))}`;
+}
+
+const PYTEST_ARGS = "-q -p no:cacheprovider --import-mode=importlib";
+
+function toCoverageMetric(total: unknown, covered: unknown): { total: number; covered: number; pct: number } {
+    const t = Number(total) || 0;
+    const c = Number(covered) || 0;
+    return { total: t, covered: c, pct: t > 0 ? Math.round((c / t) * 10000) / 100 : 0 };
+}
+
+/**
+ * coverage.py JSON report (`--cov-report=json`) in the pipeline's coverage shape. coverage.py
+ * measures statements and branches; it has no function totals.
+ */
+export function parseCoveragePyReport(raw: string): MeasuredCoverage | null {
+    let report: { totals?: Record<string, unknown>; files?: Record<string, unknown> };
+    try {
+        report = JSON.parse(raw);
+    } catch {
+        return null;
+    }
+    const totals = report?.totals;
+    if (!totals || typeof totals.num_statements !== "number") return null;
+    const lines = toCoverageMetric(totals.num_statements, totals.covered_lines);
+    const percent = typeof totals.percent_covered === "number" ? totals.percent_covered : lines.pct;
+    return {
+        coverage: Math.max(0, Math.min(1, percent / 100)),
+        stats: {
+            statements: lines,
+            branches: toCoverageMetric(totals.num_branches, totals.covered_branches),
+            functions: toCoverageMetric(0, 0),
+            lines,
+        },
+        files: Object.keys(report.files ?? {}).length,
+    };
+}
+
+const pytestProfile: TestFrameworkProfile = {
+    id: "pytest",
+    label: "pytest",
+    language: "Python",
+    imports: "import pytest\nfrom unittest.mock import MagicMock, patch",
+    mocking: [
+        "Share setup through @pytest.fixture functions (conftest-style fixtures in the test file), not setUp/tearDown classes",
+        "Replace attributes, environment variables and module globals with the monkeypatch fixture (monkeypatch.setattr / setenv / delenv)",
+        "Patch collaborators where the module under test looks them up: patch('package.module.dependency') from unittest.mock, as a context manager or decorator",
+        "Assert exceptions with pytest.raises(ErrorType, match=...) and cover input variants with @pytest.mark.parametrize",
+        "Use tmp_path for files; never touch the real filesystem, network or environment",
+    ],
+    example: `import pytest
+from unittest.mock import MagicMock, patch
+
+# Import the module under test by its package path
+from [PACKAGE].[MODULE] import [ACTUAL_IMPORTS_FROM_SOURCE]
+
+
+@pytest.fixture
+def client():
+    # Shared setup for the tests below
+    return MagicMock()
+
+
+class Test[FunctionName]:
+    def test_returns_result_for_valid_input(self, client):
+        # Comprehensive positive test case
+        ...
+
+    def test_raises_when_dependency_fails(self, client):
+        with patch("[PACKAGE].[MODULE].[DEPENDENCY]", side_effect=OSError("boom")):
+            with pytest.raises(OSError, match="boom"):
+                ...
+
+    def test_reads_configuration_from_environment(self, monkeypatch):
+        monkeypatch.setenv("[ENV_VAR]", "value")
+        ...
+
+    @pytest.mark.parametrize("value, expected", [(0, 0), (1, 1)])
+    def test_handles_boundary_values(self, value, expected):
+        ...`,
+    layout: "Separate tests/ directory mirroring the package layout (tests/<package>/test_<module>.py)",
+    discoverSources: (projectDir, detected) => {
+        const packages = detected.packages ?? [];
+        return `Analyze the Python packages and scan for modules: docker_exec find ${(packages.length ? packages : ["."]).map(pkg => `${projectDir}/${pkg}`).join(" ")} -name "*.py" -type f -not -name "test_*" -not -name "conftest.py" -not -path "*/tests/*" | head -20
+   Plan modules inside these packages${packages.length ? ` (${packages.join(", ")}, from pyproject.toml/setup.cfg)` : ""}; skip __init__.py files that only re-export`;
+    },
+    testFilePath: pythonTestFilePath,
+    packages: () => ["pytest", "pytest-cov", "pytest-json-report"],
+    installScript: () => [
+        `[ -x ${PYTHON_VENV}/bin/python ] || python3 -m venv ${PYTHON_VENV}`,
+        `. ${PYTHON_VENV}/bin/activate`,
+        // Dependencies once per container; the project is installed as a regular (non-editable) package
+        `if [ ! -f ${PYTHON_VENV}/.deps-installed ]; then`,
+        `  for req in requirements.txt requirements-dev.txt requirements-test.txt; do [ -f "$req" ] && pip install -q -r "$req"; done`,
+        `  if [ -f pyproject.toml ] || [ -f setup.py ] || [ -f setup.cfg ]; then pip install -q . || true; fi`,
+        `  touch ${PYTHON_VENV}/.deps-installed`,
+        `fi`,
+        `python -c "import pytest, pytest_cov, pytest_jsonreport" 2>/dev/null || pip install -q pytest pytest-cov pytest-json-report`,
+    ].join("\n"),
+    testCommand: (testFiles, detected) => `${pytestEnv(detected)} ${PYTHON_VENV}/bin/python -m pytest ${PYTEST_ARGS} ${testFiles.map(shellEscape).join(" ")}`,
+    reportArgs: (reportFile) => `--json-report --json-report-file=${reportFile}`,
+    reportFormat: "pytest-json",
+    coverageCommand: (excludedTestFiles, detected) =>
+        [
+            `rm -f ${PYTEST_COVERAGE_REPORT};`,
+            `COVERAGE_FILE=${PYTEST_COVERAGE_DATA} ${pytestEnv(detected)} ${PYTHON_VENV}/bin/python -m pytest ${PYTEST_ARGS}`,
+            ...(detected.packages?.length ? detected.packages : ["."]).map(pkg => `--cov=${shellEscape(pkg)}`),
+            "--cov-branch --cov-report=term",
+            `--cov-report=json:${PYTEST_COVERAGE_REPORT}`,
+            ...excludedTestFiles.map(file => `--ignore=${shellEscape(file)}`),
+        ].join(" "),
+    coverageReport: { file: PYTEST_COVERAGE_REPORT, parse: parseCoveragePyReport },
+};
+
+// pkg/foo/bar.go -> pkg/foo/bar_test.go: Go tests live next to the code, in the same package
+function goTestFilePath(sourceFile: string): string {
+    return sourceFile.replace(/\.go$/, "_test.go");
+}
+
+// Module cache and build cache on the workspace volume (the root filesystem is read-only); no toolchain downloads
+const GO_ENV = `GOPATH=${GO_PATH} GOMODCACHE=${GO_PATH}/pkg/mod GOCACHE=${GO_PATH}/cache GOFLAGS=-modcacherw GOTOOLCHAIN=local`;
+
+// Names of the Test functions declared in the given (shell-escaped) files, joined with '|'
+function goTestNames(fileArgs: string): string {
+    return `$(sed -n 's/^func \\(Test[A-Za-z0-9_]*\\)(.*/\\1/p' ${fileArgs} | paste -sd '|' -)`;
+}
+
+// Only the given files' tests, in the packages (directories) holding them
+function goTestSelection(fileArgs: string): string {
+    const packages = `$(for f in ${fileArgs}; do echo "./$(dirname "$f")"; done | sort -u)`;
+    return `-run "^(${goTestNames(fileArgs)})\\$" ${packages}`;
+}
+
+interface GoProfileBlock {
+    file: string;
+    startLine: number;
+    endLine: number;
+    statements: number;
+    count: number;
+}
+
+/**
+ * `go test -coverprofile` output in the pipeline's coverage shape, with statement coverage per
+ * file. Go measures statements only: lines are derived from the blocks, branches and functions
+ * have no totals. Files are reported relative to the module root.
+ */
+export function parseGoCoverProfile(raw: string, detected: DetectedTestFramework): MeasuredCoverage | null {
+    const lines = raw.split("\n").map(line => line.trim()).filter(Boolean);
+    if (!lines[0]?.startsWith("mode:")) return null;
+
+    // Profiles of several packages can repeat a block; a block counts as covered if any run covered it
+    const blocks = new Map<string, GoProfileBlock>();
+    for (const line of lines.slice(1)) {
+        const match = /^(.+):(\d+)\.\d+,(\d+)\.\d+ (\d+) (\d+)$/.exec(line);
+        if (!match) continue;
+        const key = line.substring(0, line.lastIndexOf(" "));
+        const count = Number(match[5]);
+        const existing = blocks.get(key);
+        if (existing) {
+            existing.count = Math.max(existing.count, count);
+            continue;
+        }
+        const file = detected.module && match[1].startsWith(`${detected.module}/`) ? match[1].substring(detected.module.length + 1) : match[1];
+        blocks.set(key, { file, startLine: Number(match[2]), endLine: Number(match[3]), statements: Number(match[4]), count });
+    }
+    if (blocks.size === 0) return null;
+
+    const perFile = new Map<string, { total: number; covered: number; lines: Map<number, boolean> }>();
+    for (const block of blocks.values()) {
+        const entry = perFile.get(block.file) ?? { total: 0, covered: 0, lines: new Map<number, boolean>() };
+        entry.total += block.statements;
+        if (block.count > 0) entry.covered += block.statements;
+        for (let line = block.startLine; line <= block.endLine; line++) {
+            entry.lines.set(line, entry.lines.get(line) === true || block.count > 0);
+        }
+        perFile.set(block.file, entry);
+    }
+
+    const files = [...perFile.entries()];
+    const statements = toCoverageMetric(files.reduce((sum, [, f]) => sum + f.total, 0), files.reduce((sum, [, f]) => sum + f.covered, 0));
+    const lineCount = toCoverageMetric(
+        files.reduce((sum, [, f]) => sum + f.lines.size, 0),
+        files.reduce((sum, [, f]) => sum + [...f.lines.values()].filter(Boolean).length, 0),
+    );
+    return {
+        coverage: Math.max(0, Math.min(1, statements.pct / 100)),
+        stats: {
+            statements,
+            branches: toCoverageMetric(0, 0),
+            functions: toCoverageMetric(0, 0),
+            lines: lineCount,
+        },
+        files: files.length,
+        fileCoverage: files
+            .map(([file, f]) => ({ file, unit: "statements" as const, ...toCoverageMetric(f.total, f.covered) }))
+            .sort((a, b) => a.file.localeCompare(b.file)),
+    };
+}
+
+const goTestProfile: TestFrameworkProfile = {
+    id: "gotest",
+    label: "go test",
+    language: "Go",
+    imports: `import "testing"`,
+    mocking: [
+        "Declare the test file in the same package as the source (package foo, not foo_test) so unexported identifiers are reachable",
+        "Write table-driven tests: a []struct{ name string; ... } of cases, each run with t.Run(tt.name, func(t *testing.T) { ... })",
+        "Replace dependencies through the interfaces the code accepts with small hand-written fakes; use net/http/httptest for HTTP and t.TempDir() / t.Setenv() for files and environment",
+        "Compare errors with errors.Is / errors.As and report with t.Errorf / t.Fatalf; use testify only if go.mod already requires github.com/stretchr/testify",
+        "Only Test* functions are run; do not add a TestMain or package-level init that touches the network",
+    ],
+    example: `package [PACKAGE_NAME]
+
+import (
+    "errors"
+    "testing"
+)
+
+type fake[Dependency] struct {
+    err error
+}
+
+func (f *fake[Dependency]) [Method]([ARGS]) error { return f.err }
+
+func Test[FunctionName](t *testing.T) {
+    tests := []struct {
+        name    string
+        input   [INPUT_TYPE]
+        want    [OUTPUT_TYPE]
+        wantErr error
+    }{
+        {name: "returns result for valid input", input: [VALID_INPUT], want: [EXPECTED]},
+        {name: "fails when dependency fails", input: [INPUT], wantErr: [EXPECTED_ERROR]},
+        {name: "handles zero value", input: [ZERO_VALUE], want: [EXPECTED]},
+    }
+    for _, tt := range tests {
+        t.Run(tt.name, func(t *testing.T) {
+            got, err := [FunctionName](tt.input)
+            if !errors.Is(err, tt.wantErr) {
+                t.Fatalf("[FunctionName]() error = %v, want %v", err, tt.wantErr)
+            }
+            if got != tt.want {
+                t.Errorf("[FunctionName]() = %v, want %v", got, tt.want)
+            }
+        })
+    }
+}`,
+    layout: "Place each test file next to its source file, in the same package (foo.go -> foo_test.go)",
+    discoverSources: (projectDir) =>
+        `Scan the module's packages for source files: docker_exec find ${projectDir} -name "*.go" -not -name "*_test.go" -not -path "*/vendor/*" -not -path "*/testdata/*" -type f | head -20
+   Skip generated files (a "// Code generated ... DO NOT EDIT." header) and main packages that only wire dependencies`,
+    testFilePath: goTestFilePath,
+    packages: () => [],
+    installScript: () => `${GO_ENV} go mod download`,
+    testCommand: (testFiles) => `${GO_ENV} go test -count=1 ${goTestSelection(testFiles.map(shellEscape).join(" "))}`,
+    reportArgs: () => "-json",
+    reportFormat: "go-test-json",
+    reportOnStdout: true,
+    coverageCommand: (excludedTestFiles) => {
+        // go test cannot leave files out of a package; the excluded files' tests are skipped instead
+        const skip = excludedTestFiles.length > 0
+            ? ` -skip "^(${goTestNames(excludedTestFiles.map(shellEscape).join(" "))})\\$"`
+            : "";
+        return `rm -f ${GO_COVER_PROFILE}; ${GO_ENV} go test -count=1${skip} -coverprofile=${GO_COVER_PROFILE} ./...`;
+    },
+    coverageReport: { file: GO_COVER_PROFILE, parse: parseGoCoverProfile },
+};
+
+// src/main/java/com/acme/Foo.java -> src/test/java/com/acme/FooTest.java, in the same module
+function javaTestFilePath(sourceFile: string): string {
+    return sourceFile.replace(/(^|\/)src\/main\/java\//, "$1src/test/java/").replace(/\.java$/, "Test.java");
+}
+
+// Fully qualified class name of a test file under a src/test/java source root
+export function javaTestClass(testFile: string): string {
+    return testFile.replace(/^(.*\/)?src\/test\/java\//, "").replace(/\.java$/, "").replace(/\//g, ".");
+}
+
+// Dependencies and plugins in a cache on the workspace volume; the wrapper is used when the repository has one
+const MAVEN = `MAVEN_USER_HOME=${MAVEN_HOME} $([ -x ./mvnw ] && echo ./mvnw || echo mvn) -B -Dmaven.repo.local=${MAVEN_HOME}/repository`;
+const GRADLE = `GRADLE_USER_HOME=${GRADLE_HOME} $([ -x ./gradlew ] && echo ./gradlew || echo gradle) --no-daemon --init-script ${GRADLE_INIT_SCRIPT}`;
+const JACOCO_PLUGIN = `org.jacoco:jacoco-maven-plugin:${JACOCO_VERSION}`;
+// Surefire runs nothing (instead of failing) in modules without one of the selected tests
+const SUREFIRE_SELECTION_ARGS = "-Dsurefire.failIfNoSpecifiedTests=false -DfailIfNoTests=false";
+
+// Applies JaCoCo without touching the build, lets test filters match nothing in a subproject,
+// skips excluded test classes and resolves every test configuration ahead of an offline run
+const GRADLE_INIT = `allprojects {
+    plugins.withId('java') {
+        apply plugin: 'jacoco'
+        tasks.withType(Test).configureEach {
+            filter.failOnNoMatchingTests = false
+            def excluded = System.getenv('MASTRA_EXCLUDED_TESTS')
+            if (excluded) excluded.split(',').each { filter.excludeTestsMatching(it) }
+            if (System.getenv('MASTRA_IGNORE_TEST_FAILURES')) ignoreFailures = true
+        }
+        tasks.matching { it.name == 'jacocoTestReport' }.configureEach { reports { xml.required = true } }
+        tasks.register('mastraResolve') {
+            doLast {
+                ['compileClasspath', 'testCompileClasspath', 'testRuntimeClasspath', 'annotationProcessor', 'testAnnotationProcessor', 'jacocoAgent', 'jacocoAnt'].each { name ->
+                    def configuration = configurations.findByName(name)
+                    if (configuration?.canBeResolved) configuration.resolve()
+                }
+            }
+        }
+    }
+}`;
+
+function gradle(args: string, env = ""): string {
+    return `echo ${shellEscape(GRADLE_INIT)} > ${GRADLE_INIT_SCRIPT} && ${env ? `${env} ` : ""}${GRADLE} ${args}`;
+}
+
+// JUnit XML written by Surefire and Gradle, one file per test class
+const JUNIT_REPORTS = "\\( -path '*/surefire-reports/TEST-*.xml' -o -path '*/test-results/test/TEST-*.xml' \\)";
+const JACOCO_REPORTS = "\\( -path '*/site/jacoco/jacoco.xml' -o -path '*/reports/jacoco/test/jacocoTestReport.xml' \\)";
+
+function toJacocoCounters(xml: string): Map<string, { missed: number; covered: number }> {
+    const counters = new Map<string, { missed: number; covered: number }>();
+    for (const match of xml.matchAll(/<counter type="(\w+)" missed="(\d+)" covered="(\d+)"\s*\/>/g)) {
+        const counter = counters.get(match[1]) ?? { missed: 0, covered: 0 };
+        counter.missed += Number(match[2]);
+        counter.covered += Number(match[3]);
+        counters.set(match[1], counter);
+    }
+    return counters;
+}
+
+/**
+ * JaCoCo XML report(s) in the pipeline's coverage shape: instructions stand in for statements,
+ * with JaCoCo's branch, method and line counters, and line coverage per source file. Multi-module
+ * builds write one report per module; they are concatenated and summed.
+ */
+export function parseJacocoReport(raw: string): MeasuredCoverage | null {
+    const totals = new Map<string, { missed: number; covered: number }>();
+    const fileCoverage: FileCoverage[] = [];
+    for (const pkg of raw.matchAll(/<package name="([^"]*)">([\s\S]*?)<\/package>/g)) {
+        for (const source of pkg[2].matchAll(/<sourcefile name="([^"]+)">([\s\S]*?)<\/sourcefile>/g)) {
+            const counters = toJacocoCounters(source[2]);
+            for (const [type, counter] of counters) {
+                const total = totals.get(type) ?? { missed: 0, covered: 0 };
+                totals.set(type, { missed: total.missed + counter.missed, covered: total.covered + counter.covered });
+            }
+            const lines = counters.get("LINE");
+            if (lines) {
+                const file = pkg[1] ? `${pkg[1]}/${source[1]}` : source[1];
+                fileCoverage.push({ file, unit: "lines", ...toCoverageMetric(lines.missed + lines.covered, lines.covered) });
+            }
+        }
+    }
+    if (fileCoverage.length === 0) return null;
+
+    const metric = (type: string) => {
+        const counter = totals.get(type) ?? { missed: 0, covered: 0 };
+        return toCoverageMetric(counter.missed + counter.covered, counter.covered);
+    };
+    const lines = metric("LINE");
+    return {
+        coverage: Math.max(0, Math.min(1, lines.pct / 100)),
+        stats: {
+            statements: metric("INSTRUCTION"),
+            branches: metric("BRANCH"),
+            functions: metric("METHOD"),
+            lines,
+        },
+        files: fileCoverage.length,
+        fileCoverage: fileCoverage.sort((a, b) => a.file.localeCompare(b.file)),
+    };
+}
+
+const junitProfile: TestFrameworkProfile = {
+    id: "junit",
+    label: "JUnit 5",
+    language: "Java",
+    imports: "package <package of the class under test>;\nimport org.junit.jupiter.api.Test;\nimport static org.junit.jupiter.api.Assertions.*;",
+    mocking: [
+        "Write JUnit 5 (org.junit.jupiter.api) tests: @Test methods, @BeforeEach/@AfterEach setup, @Nested classes to group scenarios, @DisplayName for readable names",
+        "Mock collaborators with Mockito: @ExtendWith(MockitoExtension.class), @Mock fields and @InjectMocks for the class under test; stub with when(...).thenReturn(...) / thenThrow(...) and check calls with verify(...)",
+        "Assert exceptions with assertThrows(Type.class, () -> ...) and cover input variants with @ParameterizedTest and @ValueSource / @CsvSource",
+        "Declare the test class in the package of the class under test so package-private members are reachable",
+        "Keep tests at unit level: no @SpringBootTest contexts, servers, databases or network; use @TempDir for files",
+    ],
+    example: `package [PACKAGE];
+
+import org.junit.jupiter.api.BeforeEach;
+import org.junit.jupiter.api.Nested;
+import org.junit.jupiter.api.Test;
+import org.junit.jupiter.api.extension.ExtendWith;
+import org.junit.jupiter.params.ParameterizedTest;
+import org.junit.jupiter.params.provider.ValueSource;
+import org.mockito.InjectMocks;
+import org.mockito.Mock;
+import org.mockito.junit.jupiter.MockitoExtension;
+
+import static org.junit.jupiter.api.Assertions.*;
+import static org.mockito.Mockito.*;
+
+@ExtendWith(MockitoExtension.class)
+class [ClassName]Test {
+
+    @Mock
+    private [Dependency] dependency;
+
+    @InjectMocks
+    private [ClassName] subject;
+
+    @Nested
+    class [MethodName] {
+
+        @Test
+        void returnsResultForValidInput() {
+            when(dependency.[call]([ARGS])).thenReturn([VALUE]);
+
+            assertEquals([EXPECTED], subject.[methodName]([INPUT]));
+            verify(dependency).[call]([ARGS]);
+        }
+
+        @Test
+        void throwsWhenDependencyFails() {
+            when(dependency.[call]([ARGS])).thenThrow(new IllegalStateException("boom"));
+
+            assertThrows(IllegalStateException.class, () -> subject.[methodName]([INPUT]));
+        }
+
+        @ParameterizedTest
+        @ValueSource(strings = {"", " "})
+        void rejectsBlankInput(String input) {
+            assertThrows(IllegalArgumentException.class, () -> subject.[methodName](input));
+        }
+    }
+}`,
+    layout: "Mirror the package structure under the module's src/test/java (src/main/java/com/acme/Foo.java -> src/test/java/com/acme/FooTest.java)",
+    discoverSources: (projectDir) =>
+        `Scan the build's modules for Java sources: docker_exec find ${projectDir} -path "*/src/main/java/*" -name "*.java" -type f -not -name "package-info.java" -not -path "*/generated*/*" | head -20
+   Prefer services and domain logic; skip DTOs and records without behaviour, configuration classes and the application main class`,
+    testFilePath: javaTestFilePath,
+    packages: () => [],
+    // Resolves dependencies, plugins and Surefire's JUnit provider by running a test selection that matches nothing
+    installScript: (detected) => detected.buildTool === "gradle"
+        ? `${gradle("-q mastraResolve")} || true`
+        : [
+            `${MAVEN} -q dependency:go-offline || true`,
+            `${MAVEN} -q ${JACOCO_PLUGIN}:prepare-agent test ${JACOCO_PLUGIN}:report -Dtest=MastraNoSuchTest ${SUREFIRE_SELECTION_ARGS} -Dmaven.compiler.failOnError=false || true`,
+        ].join("; "),
+    testCommand: (testFiles, detected) => {
+        const classes = testFiles.map(javaTestClass);
+        const run = detected.buildTool === "gradle"
+            ? gradle(`--offline --continue test ${classes.map(name => `--tests ${shellEscape(name)}`).join(" ")}`)
+            : `${MAVEN} -o test -Dtest=${shellEscape(classes.join(","))} ${SUREFIRE_SELECTION_ARGS} -DtrimStackTrace=false`;
+        return `find . ${JUNIT_REPORTS} -delete 2>/dev/null; ${run}`;
+    },
+    reportArgs: () => "",
+    reportFormat: "junit-xml",
+    collectReport: (reportFile) => `find . ${JUNIT_REPORTS} -not -path '*/node_modules/*' -exec cat {} + > ${reportFile} 2>/dev/null`,
+    coverageCommand: (excludedTestFiles, detected) => {
+        const excluded = excludedTestFiles.map(javaTestClass);
+        const run = detected.buildTool === "gradle"
+            ? gradle("--offline --continue test jacocoTestReport", `MASTRA_IGNORE_TEST_FAILURES=1${excluded.length ? ` MASTRA_EXCLUDED_TESTS=${shellEscape(excluded.join(","))}` : ""}`)
+            : [
+                `${MAVEN} -o ${JACOCO_PLUGIN}:prepare-agent test ${JACOCO_PLUGIN}:report -Dmaven.test.failure.ignore=true`,
+                ...(excluded.length ? [`-Dtest=${shellEscape(excluded.map(name => `!${name}`).join(","))} ${SUREFIRE_SELECTION_ARGS}`] : []),
+            ].join(" ");
+        return `rm -f ${JACOCO_REPORT}; ${run}; find . ${JACOCO_REPORTS} -exec cat {} + > ${JACOCO_REPORT}`;
+    },
+    coverageReport: { file: JACOCO_REPORT, parse: parseJacocoReport },
+};
+
+// Crate directory (holding Cargo.toml) and module path of a source file: crates/a/src/foo/mod.rs -> crates/a, foo.
+// Crate roots (lib.rs, main.rs, src/bin/*) have an empty module path
+export function rustTestModule(sourceFile: string): { crateDir: string; modulePath: string } {
+    const match = /^(?:(.*)\/)?src\/(.*)\.rs$/.exec(sourceFile);
+    if (!match) return { crateDir: sourceFile.includes("/") ? sourceFile.substring(0, sourceFile.lastIndexOf("/")) : "", modulePath: "" };
+    const modulePart = match[2].replace(/\/mod$/, "");
+    const isRoot = modulePart === "lib" || modulePart === "main" || modulePart.startsWith("bin/");
+    return { crateDir: match[1] ?? "", modulePath: isRoot ? "" : modulePart.replace(/\//g, "::") };
+}
+
+// Name prefix of the tests in a module's `mod tests` block, as cargo test filters and reports them
+export function rustTestFilter(modulePath: string): string {
+    return modulePath ? `${modulePath}::tests::` : "tests::";
+}
+
+// Marks which crate the following `cargo test` output belongs to
+export const CARGO_CRATE_MARKER = "__MASTRA_CRATE__";
+// Registry, git checkouts and build output stay on the workspace volume; the pinned toolchain
+// file is overridden because only the image's toolchain is installed
+const CARGO_ENV = `CARGO_HOME=${CARGO_HOME} CARGO_TARGET_DIR=${CARGO_HOME}/target CARGO_TERM_COLOR=never RUSTUP_TOOLCHAIN=$(rustup default | cut -d' ' -f1)`;
+
+/**
+ * `cargo llvm-cov --json --summary-only` output in the pipeline's coverage shape: regions stand in
+ * for statements, with llvm-cov's function, branch and line totals, and line coverage per source
+ * file (paths relative to the checkout).
+ */
+export function parseLlvmCovReport(raw: string): MeasuredCoverage | null {
+    type Summary = Record<string, { count?: number; covered?: number } | undefined>;
+    let report: { data?: { files?: { filename?: string; summary?: Summary }[]; totals?: Summary }[] };
+    try {
+        report = JSON.parse(raw);
+    } catch {
+        return null;
+    }
+    const data = report?.data?.[0];
+    if (!data?.totals) return null;
+
+    const metric = (summary: Summary | undefined, key: string) => toCoverageMetric(summary?.[key]?.count, summary?.[key]?.covered);
+    const lines = metric(data.totals, "lines");
+    const fileCoverage: FileCoverage[] = (data.files ?? [])
+        .filter(file => file.filename && !file.filename.startsWith(`${CARGO_HOME}/`))
+        .map(file => ({ file: file.filename!.replace(/^\/app\/[^/]+\//, ""), unit: "lines" as const, ...metric(file.summary, "lines") }))
+        .sort((a, b) => a.file.localeCompare(b.file));
+    return {
+        coverage: Math.max(0, Math.min(1, lines.pct / 100)),
+        stats: {
+            statements: metric(data.totals, "regions"),
+            branches: metric(data.totals, "branches"),
+            functions: metric(data.totals, "functions"),
+            lines,
+        },
+        files: fileCoverage.length,
+        fileCoverage,
+    };
+}
+
+const cargoProfile: TestFrameworkProfile = {
+    id: "cargo",
+    label: "cargo test",
+    language: "Rust",
+    imports: "use super::*;",
+    mocking: [
+        "Tests go in a #[cfg(test)] mod tests block at the end of the source file, with use super::*; so private items are testable",
+        "Write #[test] functions asserting with assert_eq!, assert_ne! and assert!; check error paths through the returned Result (is_err(), matches!(result, Err(Error::Variant))) and panics with #[should_panic(expected = \"...\")]",
+        "Cover input variants with a table of (input, expected) cases iterated in one test, naming the case in the assertion message",
+        "Substitute collaborators through the traits the code already accepts, with small test structs implementing them; use mockall only when Cargo.toml already depends on it",
+        "Async functions only with the runtime the crate already uses (#[tokio::test]); no network, no files outside std::env::temp_dir(), no environment variable changes",
+    ],
+    inlineTests: "The test file is the source file itself: write back its complete current content unchanged and add the tests as one #[cfg(test)] mod tests block at the end (extend an existing tests module rather than adding a second one)",
+    example: `// ... the file's existing code, unchanged ...
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    #[test]
+    fn [function]_returns_expected_value_for_valid_input() {
+        let cases = [
+            ([INPUT], [EXPECTED]),
+            ([EDGE_INPUT], [EDGE_EXPECTED]),
+        ];
+        for (input, expected) in cases {
+            assert_eq!([function](input), expected, "input: {:?}", input);
+        }
+    }
+
+    #[test]
+    fn [function]_returns_error_for_invalid_input() {
+        let result = [function]([INVALID_INPUT]);
+        assert!(matches!(result, Err([ErrorType]::[Variant])));
+    }
+
+    #[test]
+    #[should_panic(expected = "[PANIC_MESSAGE]")]
+    fn [function]_panics_when_[condition]() {
+        [function]([BAD_INPUT]);
+    }
+}`,
+    layout: "Unit tests live inside the source file as a #[cfg(test)] mod tests block; the test file of a source file is the source file itself",
+    discoverSources: (projectDir) =>
+        `Scan the crate(s) for Rust sources: docker_exec find ${projectDir} -path "*/src/*" -name "*.rs" -type f -not -path "*/target/*" | head -20
+   Prefer modules with logic; skip main.rs glue, build.rs and generated code`,
+    testFilePath: (sourceFile) => sourceFile,
+    packages: () => [],
+    installScript: () => `${CARGO_ENV} cargo fetch || true`,
+    // One cargo test per crate, filtered to the files' tests modules; the exit status is the worst of them
+    testCommand: (testFiles) => {
+        const crates = new Map<string, Set<string>>();
+        for (const file of testFiles) {
+            const { crateDir, modulePath } = rustTestModule(file);
+            crates.set(crateDir, (crates.get(crateDir) ?? new Set<string>()).add(rustTestFilter(modulePath)));
+        }
+        const runs = [...crates].map(([crateDir, filters]) =>
+            `echo ${shellEscape(`${CARGO_CRATE_MARKER} ${crateDir}`)}; ${CARGO_ENV} cargo test --offline --no-fail-fast --manifest-path ${shellEscape(crateDir ? `${crateDir}/Cargo.toml` : "Cargo.toml")} -- ${[...filters].map(shellEscape).join(" ")} || status=$?`
+        );
+        return `status=0; ${runs.join("; ")}; exit $status`;
+    },
+    reportArgs: () => "",
+    reportFormat: "cargo-test",
+    reportOnStdout: true,
+    // The baseline skips the tests modules of the excluded files. libtest matches --skip as a
+    // substring, so tests modules of crate roots (plain `tests::`) are kept rather than skipping every module
+    coverageCommand: (excludedTestFiles) => {
+        const skips = [...new Set(excludedTestFiles.map(file => rustTestModule(file).modulePath).filter(Boolean).map(rustTestFilter))];
+        const skipArgs = skips.length ? ` -- ${skips.map(filter => `--skip ${shellEscape(filter)}`).join(" ")}` : "";
+        return `rm -f ${LLVM_COV_REPORT}; ${CARGO_ENV} cargo llvm-cov --offline --workspace --ignore-run-fail --json --summary-only --output-path ${LLVM_COV_REPORT}${skipArgs}`;
+    },
+    coverageReport: { file: LLVM_COV_REPORT, parse: parseLlvmCovReport },
+};
+
+const profiles: Record<TestFramework, TestFrameworkProfile> = {
+    vitest: vitestProfile,
+    jest: jestProfile,
+    pytest: pytestProfile,
+    gotest: goTestProfile,
+    junit: junitProfile,
+    cargo: cargoProfile,
+};
+
+export function getTestFrameworkProfile(framework: TestFramework): TestFrameworkProfile {
+    return profiles[framework];
+}
+
+/**
+ * Known framework named by a plan or an agent ("Jest", "vitest"), or undefined.
+ */
+export function parseTestFramework(value: string | undefined): TestFramework | undefined {
+    const parsed = TestFrameworkSchema.safeParse(value?.trim().toLowerCase());
+    return parsed.success ? parsed.data : undefined;
+}
+
+/**
+ * One-line description for prompts and alerts, e.g. "Jest (jest.config.ts, ts-jest)".
+ */
+export function describeTestFramework(detected: DetectedTestFramework): string {
+    const details = [detected.configFile, detected.transform, ...(detected.packages ?? [])].filter(Boolean);
+    const label = getTestFrameworkProfile(detected.framework).label;
+    return details.length > 0 ? `${label} (${details.join(", ")})` : label;
+}
+
+/**
+ * Prompt lines telling a coder agent how test files of this framework are written.
+ */
+export function describeTestFrameworkIdioms(detected: DetectedTestFramework): string {
+    const profile = getTestFrameworkProfile(detected.framework);
+    const lines = [
+        `- ${profile.inlineTests ? "Open the tests module with" : "Start the file with"}: ${profile.imports.replace(/\n/g, "; ")}`,
+        ...profile.mocking.map(rule => `- ${rule}`),
+    ];
+    if (detected.transform === "ts-jest") lines.push("- ts-jest type-checks every test file: type errors fail the file, so type mocks precisely");
+    if (detected.transform === "babel-jest" || detected.transform === "@swc/jest") {
+        lines.push(`- ${detected.transform} strips types without checking them; only syntax the project's compiler config supports is allowed`);
+    }
+    if (detected.libraries && !detected.libraries.includes("junit-jupiter")) {
+        lines.push("- The build does not declare junit-jupiter: check its test dependencies and stay with the JUnit 5 annotations they provide");
+    }
+    if (detected.libraries && !detected.libraries.includes("mockito")) {
+        lines.push("- The build does not declare Mockito: replace collaborators with hand-written fakes instead of @Mock");
+    }
+    if (detected.libraries?.includes("assertj")) lines.push("- AssertJ is available: prefer assertThat(actual).isEqualTo(expected) chains for readable failures");
+    return lines.join("\n");
+}
+
+// =============================================================================
+// DETECTION
+// =============================================================================
+
+function pickJestTransform(files: Set<string>, configFile: string | undefined, configText: string): DetectedTestFramework["transform"] {
+    if (/ts-jest/.test(configText)) return "ts-jest";
+    if (/@swc\/jest/.test(configText)) return "@swc/jest";
+    // Jest falls back to babel-jest, which only handles TypeScript with a Babel config
+    if (configFile || BABEL_CONFIG_FILES.some(file => files.has(file))) return "babel-jest";
+    return "ts-jest";
+}
+
+// Declared package roots: setuptools `where`, poetry `from`, setup.cfg `package_dir = =src`
+function findDeclaredPackageRoots(pyproject: string, setupCfg: string): string[] {
+    const roots = [
+        ...Array.from(pyproject.matchAll(/^\s*where\s*=\s*\[([^\]]*)\]/gm), match => match[1]).flatMap(list => Array.from(list.matchAll(/["']([^"']+)["']/g), item => item[1])),
+        ...Array.from(pyproject.matchAll(/\bfrom\s*=\s*["']([^"']+)["']/g), match => match[1]),
+        ...Array.from(setupCfg.matchAll(/^\s*package_dir\s*=\s*(?:\n\s*)?=\s*(\S+)/gm), match => match[1]),
+    ];
+    return [...new Set(roots.map(root => root.replace(/^\.\/?/, "").replace(/\/+$/, "")))];
+}
+
+/**
+ * Top-level packages: directories with an __init__.py whose parent has none, under the declared
+ * roots when the manifests declare any. Test, docs and tooling directories are skipped.
+ */
+function findPythonPackages(initFiles: string[], pyproject: string, setupCfg: string): string[] {
+    const dirs = new Set(initFiles
+        .map(file => file.replace(/^\.\//, ""))
+        .filter(file => file.endsWith("__init__.py"))
+        .map(file => file.includes("/") ? file.substring(0, file.lastIndexOf("/")) : ""));
+    const declaredRoots = findDeclaredPackageRoots(pyproject, setupCfg);
+    return [...dirs]
+        .filter(dir => dir && !dirs.has(dir.includes("/") ? dir.substring(0, dir.lastIndexOf("/")) : ""))
+        .filter(dir => !dir.split("/").some(segment => segment.startsWith(".") || NON_PACKAGE_DIRS.has(segment)))
+        .filter(dir => {
+            const parent = dir.includes("/") ? dir.substring(0, dir.lastIndexOf("/")) : "";
+            return declaredRoots.length === 0 ? parent === "" || parent === "src" : declaredRoots.includes(parent);
+        })
+        .sort();
+}
+
+// Test libraries the build declares; the Spring Boot test starter brings JUnit 5, Mockito and AssertJ
+function findJvmTestLibraries(declared: string[]): string[] {
+    const bundled = declared.includes("spring-boot-starter-test") ? ["junit-jupiter", "mockito", "assertj"] : [];
+    return [...new Set([...declared.filter(name => name !== "spring-boot-starter-test"), ...bundled])].sort();
+}
+
+/**
+ * Read the repository's test framework from its runner config, dependencies and test script.
+ * Vitest wins when both are present unless only Jest is named by the test script. Without a
+ * Node runner, a go.mod means go test for that module, a Cargo.toml means cargo test, a Maven
+ * or Gradle build means JUnit 5 and a Python manifest means pytest with the repository's packages.
+ * Undefined when the repository has no test setup of any of these. Never throws.
+ */
+export async function findTestFramework(containerId: string, repoPath: string): Promise<DetectedTestFramework | undefined> {
+    const cd = `cd ${shellEscape(repoPath)}`;
+    const { stdout } = await sh(`docker exec ${containerId} bash -lc ${shellEscape([
+        `${cd} && ls -1a`,
+        "cat package.json 2>/dev/null",
+        `cat jest.config.* 2>/dev/null | head -c ${MAX_CONFIG_CHARS}`,
+        `cat pyproject.toml 2>/dev/null | head -c ${MAX_CONFIG_CHARS}`,
+        `cat setup.cfg 2>/dev/null | head -c ${MAX_CONFIG_CHARS}`,
+        `cat tox.ini 2>/dev/null | head -c ${MAX_CONFIG_CHARS}`,
+        "grep -m1 '^module' go.mod 2>/dev/null",
+        "find . -maxdepth 4 -name __init__.py -not -path '*/.*' -not -path '*/node_modules/*' 2>/dev/null | head -500",
+        `grep -hoE '${JVM_LIBRARY_PATTERN}' pom.xml */pom.xml build.gradle build.gradle.kts */build.gradle */build.gradle.kts gradle/libs.versions.toml 2>/dev/null | sort -u`,
+    ].join(`; echo ${CONFIG_MARKER}; `))}`);
+    const [listing = "", packageRaw = "", jestConfigRaw = "", pyproject = "", setupCfg = "", toxIni = "", goMod = "", initList = "", jvmLibraries = ""] = stdout.split(CONFIG_MARKER);
+    const files = new Set(listing.split("\n").map(line => line.trim()).filter(Boolean));
+    if (files.size === 0) return undefined;
+
+    let pkg: PackageJson = {};
+    try {
+        pkg = JSON.parse(packageRaw);
+    } catch {
+        // No or unreadable package.json: config files alone decide
+    }
+    const dependencies = { ...pkg.dependencies, ...pkg.devDependencies };
+    const testScript = pkg.scripts?.test ?? "";
+
+    const vitestConfig = VITEST_CONFIG_FILES.find(file => files.has(file));
+    const jestConfig = JEST_CONFIG_FILES.find(file => files.has(file)) ?? (pkg.jest ? "package.json" : undefined);
+    const usesVitest = !!vitestConfig || "vitest" in dependencies || /\bvitest\b/.test(testScript);
+    const usesJest = !!jestConfig || "jest" in dependencies || /\bjest\b/.test(testScript);
+
+    const jestOnlyScript = /\bjest\b/.test(testScript) && !/\bvitest\b/.test(testScript);
+    if (usesJest && (!usesVitest || jestOnlyScript)) {
+        const configText = jestConfig === "package.json" ? JSON.stringify(pkg.jest) : jestConfigRaw;
+        return { framework: "jest", configFile: jestConfig, transform: pickJestTransform(files, jestConfig, configText) };
+    }
+    if (usesVitest) return vitestConfig ? { framework: "vitest", configFile: vitestConfig } : { framework: "vitest" };
+
+    if (files.has("go.mod")) {
+        const modulePath = goMod.match(/^module\s+"?([^\s"]+)/m)?.[1];
+        return modulePath ? { framework: "gotest", module: modulePath } : { framework: "gotest" };
+    }
+
+    if (files.has("Cargo.toml")) return { framework: "cargo", configFile: "Cargo.toml" };
+
+    const jvmBuildFile = JVM_BUILD_FILES.find(file => files.has(file));
+    if (jvmBuildFile) {
+        const declared = jvmLibraries.split("\n").map(line => line.trim()).filter(Boolean);
+        return {
+            framework: "junit",
+            configFile: jvmBuildFile,
+            buildTool: jvmBuildFile === "pom.xml" ? "maven" : "gradle",
+            libraries: findJvmTestLibraries(declared),
+        };
+    }
+
+    if (PYTHON_MANIFEST_FILES.some(file => files.has(file))) {
+        const contents: Record<string, string> = { "pyproject.toml": pyproject, "tox.ini": toxIni, "setup.cfg": setupCfg };
+        const configFile = PYTEST_CONFIG_FILES.find(({ file, section }) => files.has(file) && (!section || section.test(contents[file] ?? "")))?.file;
+        const initFiles = initList.split("\n").map(line => line.trim()).filter(Boolean);
+        return { framework: "pytest", configFile, packages: findPythonPackages(initFiles, pyproject, setupCfg) };
+    }
+    return undefined;
+}
+
+/**
+ * Framework to generate and run tests with: the detected one, Vitest without a test setup.
+ */
+export async function detectTestFramework(containerId: string, repoPath: string): Promise<DetectedTestFramework> {
+    return await findTestFramework(containerId, repoPath) ?? DEFAULT_TEST_FRAMEWORK;
+}
+
+/**
+ * Framework for a run whose plan names one: the plan wins (a reviewer may have changed it),
+ * and detected config details are kept only when they describe the same framework.
+ */
+export async function resolveTestFramework(containerId: string, repoPath: string, planned?: string): Promise<DetectedTestFramework> {
+    const detected = await detectTestFramework(containerId, repoPath);
+    const requested = parseTestFramework(planned);
+    if (!requested || requested === detected.framework) return detected;
+    return requested === "jest" ? { framework: "jest", transform: "ts-jest" } : { framework: requested };
+}
+
+/**
+ * Shell script installing the repository's dependencies and the runner packages it does not
+ * provide, without touching the checkout's manifests.
+ */
+export function buildRunnerInstallScript(detected: DetectedTestFramework): string {
+    return getTestFrameworkProfile(detected.framework).installScript(detected);
+}
+
+// =============================================================================
+// RUN STATE
+// =============================================================================
+
+// Framework the run generates tests for, fixed once the plan is final
+const runFrameworks = new Map<string, DetectedTestFramework>();
+
+export function setRunTestFramework(runId: string | undefined, detected: DetectedTestFramework): void {
+    if (runId) runFrameworks.set(runId, detected);
+}
+
+export function getRunTestFramework(runId: string | undefined): DetectedTestFramework | undefined {
+    return runId ? runFrameworks.get(runId) : undefined;
+}
+
+export function clearRunTestFramework(runId: string): void {
+    runFrameworks.delete(runId);
+}
@@ -0,0 +1,673 @@
+import { exec } from "child_process";
+import path from "path";
+import { trackChildProcess } from "./run-control";
+import { withSandboxPhase } from "./sandbox-policy";
+import {
+    buildRunnerInstallScript,
+    CARGO_CRATE_MARKER,
+    detectTestFramework,
+    getTestFrameworkProfile,
+    javaTestClass,
+    rustTestFilter,
+    rustTestModule,
+    type MeasuredCoverage,
+} from "./test-frameworks";
+import type { DetectedTestFramework, TestCaseResult, TestFileRun, TestRunReport } from "../types";
+
+// Runs generated test files inside the run container and reads the runner's structured
+// (jest-compatible JSON, pytest-json-report, `go test -json`, JUnit XML or cargo test's output)
+// report, so finalize works from measured results instead of an agent's summary of the output.
+
+const TEST_RUN_TIMEOUT_SECONDS = 600;
+const MAX_STACK_FRAMES = 5;
+const OUTPUT_TAIL_CHARS = 4000;
+const COVERAGE_RUN_TIMEOUT_SECONDS = 900;
+
+function sh(cmd: string): Promise<{ stdout: string; stderr: string }> {
+    return new Promise((resolve) => {
+        const child = exec(cmd, { maxBuffer: 1024 * 1024 * 20 }, (error, stdout, stderr) => {
+            if (error) {
+                resolve({ stdout: stdout + (stderr || ''), stderr: stderr || error.message });
+            } else {
+                resolve({ stdout, stderr });
+            }
+        });
+        trackChildProcess(child, cmd);
+    });
+}
+
+function shellEscape(str: string): string {
+    return "'" + String(str).replace(/'/g, "'\"'\"'") + "'";
+}
+
+function dockerBash(containerId: string, script: string): Promise<{ stdout: string; stderr: string }> {
+    return sh(`docker exec ${containerId} bash -lc ${shellEscape(script)}`);
+}
+
+/**
+ * Repository checkout inside the container (first /app/* directory with a .git).
+ */
+export async function findRepoPath(containerId: string): Promise<string | null> {
+    const { stdout } = await dockerBash(containerId, 'for d in /app/*; do if [ -d "$d/.git" ]; then echo "$d"; break; fi; done');
+    const repoPath = stdout.trim().split('\n')[0];
+    return repoPath || null;
+}
+
+/**
+ * Check repository files back out from HEAD, dropping whatever a generation attempt wrote to them.
+ * Resolves to whether git restored them.
+ */
+export async function restoreRepoFiles(containerId: string, repoPath: string, files: string[]): Promise<boolean> {
+    if (files.length === 0) return true;
+    const { stdout } = await dockerBash(containerId, `cd ${shellEscape(repoPath)} && git checkout -q HEAD -- ${files.map(shellEscape).join(' ')}; echo "__EXIT:$?"`);
+    return /__EXIT:0\b/.test(stdout);
+}
+
+// 1-based, inclusive line ranges of the #[cfg(test)] modules of a Rust source. Braces are counted
+// outside string/char literals and line comments; an unterminated module runs to the end of the file.
+function findRustTestModuleRanges(source: string): Array<[number, number]> {
+    const lines = source.split('\n');
+    const ranges: Array<[number, number]> = [];
+    for (let i = 0; i < lines.length; i++) {
+        if (!/^\s*#\[cfg\(test\)\]\s*$/.test(lines[i])) continue;
+        let modLine = i + 1;
+        while (modLine < lines.length && /^\s*(#\[.*\])?\s*$/.test(lines[modLine])) modLine++;
+        if (!/^\s*(pub(\([^)]*\))?\s+)?mod\s+\w+\s*\{/.test(lines[modLine] ?? '')) continue;
+        let depth = 0;
+        let end = lines.length - 1;
+        for (let k = modLine; k < lines.length; k++) {
+            const code = lines[k]
+                .replace(/"(?:\\.|[^"\\])*"/g, '""')
+                .replace(/'(?:\\.|[^'\\])'/g, "''")
+                .replace(/\/\/.*$/, '');
+            for (const ch of code) {
+                if (ch === '{') depth++;
+                else if (ch === '}') depth--;
+            }
+            if (depth <= 0) {
+                end = k;
+                break;
+            }
+        }
+        ranges.push([i + 1, end + 1]);
+        i = end;
+    }
+    return ranges;
+}
+
+// Changed lines of a `git diff -U0` for one file: removed lines numbered in the old file, added
+// lines in the new one. A line only re-written to add or drop the final newline is not a change.
+function parseDiffChanges(diff: string): { removed: Array<{ line: number; text: string }>; added: Array<{ line: number; text: string }> } {
+    const removed: Array<{ line: number; text: string }> = [];
+    const added: Array<{ line: number; text: string }> = [];
+    for (const hunk of diff.split(/^(?=@@ )/m).filter(part => part.startsWith('@@ '))) {
+        const header = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(hunk);
+        if (!header) continue;
+        let oldLine = Number(header[1]);
+        let newLine = Number(header[2]);
+        const hunkRemoved: Array<{ line: number; text: string }> = [];
+        const hunkAdded: Array<{ line: number; text: string }> = [];
+        for (const line of hunk.split('\n').slice(1)) {
+            if (line.startsWith('-')) hunkRemoved.push({ line: oldLine++, text: line.substring(1) });
+            else if (line.startsWith('+')) hunkAdded.push({ line: newLine++, text: line.substring(1) });
+        }
+        if (/^\\ /m.test(hunk)) {
+            const last = hunkRemoved[hunkRemoved.length - 1];
+            const index = last ? hunkAdded.findIndex(entry => entry.text === last.text) : -1;
+            if (index !== -1) {
+                hunkRemoved.pop();
+                hunkAdded.splice(index, 1);
+            }
+        }
+        removed.push(...hunkRemoved);
+        added.push(...hunkAdded);
+    }
+    return { removed, added };
+}
+
+/**
+ * Inline test files are production sources, so an edit may only change lines inside the file's
+ * #[cfg(test)] modules (blank lines aside). Files whose `git diff HEAD` touches anything else,
+ * e.g. rewritten or truncated production code, are checked back out from HEAD. Returns those files.
+ */
+export async function revertInlineSourceEdits(containerId: string, repoPath: string, files: string[]): Promise<string[]> {
+    const cd = `cd ${shellEscape(repoPath)}`;
+    const offending: string[] = [];
+    for (const file of files) {
+        const { stdout: diff } = await dockerBash(containerId, `${cd} && git diff -U0 --no-color --no-ext-diff HEAD -- ${shellEscape(file)}`);
+        if (!diff.trim()) continue;
+        const { stdout: before } = await dockerBash(containerId, `${cd} && git show ${shellEscape(`HEAD:${file}`)} 2>/dev/null || true`);
+        const { stdout: after } = await dockerBash(containerId, `${cd} && cat -- ${shellEscape(file)} 2>/dev/null || true`);
+        const within = (ranges: Array<[number, number]>, line: number) => ranges.some(([start, end]) => line >= start && line <= end);
+        const beforeRanges = findRustTestModuleRanges(before);
+        const afterRanges = findRustTestModuleRanges(after);
+        const { removed, added } = parseDiffChanges(diff);
+        const outside = removed.some(({ line, text }) => text.trim() !== '' && !within(beforeRanges, line))
+            || added.some(({ line, text }) => text.trim() !== '' && !within(afterRanges, line));
+        if (outside) offending.push(file);
+    }
+    if (offending.length > 0) await restoreRepoFiles(containerId, repoPath, offending);
+    return offending;
+}
+
+// Shape of the jest-compatible JSON report written by `jest --json` and `vitest --reporter=json`
+interface JsonAssertionResult {
+    fullName?: string;
+    title?: string;
+    ancestorTitles?: string[];
+    status?: string;
+    failureMessages?: string[];
+}
+
+interface JsonTestResult {
+    name?: string;
+    status?: string;
+    message?: string;
+    assertionResults?: JsonAssertionResult[];
+}
+
+function splitFailure(failure: string): { errorMessage: string; stack: string[] } {
+    const lines = failure.split('\n').map(line => line.trim()).filter(Boolean);
+    const frameIndex = lines.findIndex(line => line.startsWith('at '));
+    const messageLines = frameIndex === -1 ? lines : lines.slice(0, frameIndex);
+    return {
+        errorMessage: messageLines.slice(0, 3).join('\n'),
+        stack: frameIndex === -1 ? [] : lines.slice(frameIndex).filter(line => line.startsWith('at ')).slice(0, MAX_STACK_FRAMES),
+    };
+}
+
+function toCaseResult(assertion: JsonAssertionResult): TestCaseResult {
+    const name = assertion.fullName || [...(assertion.ancestorTitles ?? []), assertion.title ?? ''].filter(Boolean).join(' > ');
+    if (assertion.status === 'passed') return { name, status: 'passed' };
+    if (assertion.status !== 'failed') return { name, status: 'skipped' };
+    const failure = (assertion.failureMessages ?? []).join('\n');
+    return failure ? { name, status: 'failed', ...splitFailure(failure) } : { name, status: 'failed' };
+}
+
+function normalizeTestPath(file: string, repoPath: string): string {
+    const relative = path.posix.isAbsolute(file) ? path.posix.relative(repoPath, file) : file;
+    return relative.replace(/^\.\//, '');
+}
+
+/**
+ * Turn the runner's JSON report into one entry per requested file. Files the runner did not
+ * report on get a suite error, since none of their cases ran.
+ */
+export function parseJsonTestReport(raw: string, repoPath: string, testFiles: string[]): TestFileRun[] | null {
+    let report: { testResults?: JsonTestResult[] };
+    try {
+        report = JSON.parse(raw);
+    } catch {
+        return null;
+    }
+    if (!Array.isArray(report?.testResults)) return null;
+
+    const byFile = new Map<string, JsonTestResult>();
+    for (const result of report.testResults) {
+        if (result.name) byFile.set(normalizeTestPath(result.name, repoPath), result);
+    }
+
+    return testFiles.map((testFile): TestFileRun => {
+        const result = byFile.get(normalizeTestPath(testFile, repoPath));
+        if (!result) {
+            return { testFile, passed: 0, failed: 0, skipped: 0, suiteError: "No results reported; the file was not collected by the test runner", cases: [] };
+        }
+        const cases = (result.assertionResults ?? []).map(toCaseResult);
+        const fileRun: TestFileRun = {
+            testFile,
+            passed: cases.filter(c => c.status === 'passed').length,
+            failed: cases.filter(c => c.status === 'failed').length,
+            skipped: cases.filter(c => c.status === 'skipped').length,
+            cases,
+        };
+        // A message on the file itself means it failed to load (syntax, imports, mock setup)
+        if (result.status === 'failed' && result.message?.trim()) {
+            fileRun.suiteError = splitFailure(result.message).errorMessage || result.message.trim().slice(0, 500);
+        }
+        return fileRun;
+    });
+}
+
+// Shape of the report written by pytest-json-report (`--json-report`)
+interface PytestStage {
+    outcome?: string;
+    crash?: { path?: string; lineno?: number; message?: string };
+    traceback?: { path?: string; lineno?: number; message?: string }[];
+    longrepr?: string;
+}
+
+interface PytestTest {
+    nodeid?: string;
+    outcome?: string;
+    setup?: PytestStage;
+    call?: PytestStage;
+    teardown?: PytestStage;
+}
+
+interface PytestCollector {
+    nodeid?: string;
+    outcome?: string;
+    longrepr?: string;
+}
+
+function toPytestCaseResult(test: PytestTest): TestCaseResult {
+    const name = (test.nodeid ?? '').split('::').slice(1).join(' > ') || test.nodeid || '';
+    // xpassed counts as a pass and xfailed as an expected skip; errors in setup or teardown fail the case
+    if (test.outcome === 'passed' || test.outcome === 'xpassed') return { name, status: 'passed' };
+    if (test.outcome !== 'failed' && test.outcome !== 'error') return { name, status: 'skipped' };
+    const stage = [test.call, test.setup, test.teardown].find(s => s?.outcome === 'failed' || s?.outcome === 'error') ?? test.call;
+    const longrepr = stage?.longrepr ?? '';
+    const errorLines = longrepr.split('\n').filter(line => line.startsWith('E ')).map(line => line.slice(1).trim());
+    const errorMessage = stage?.crash?.message?.trim() || errorLines.slice(0, 3).join('\n') || longrepr.trim().split('\n').slice(-3).join('\n');
+    const stack = (stage?.traceback ?? [])
+        .filter(entry => entry.path)
+        .map(entry => `${entry.path}:${entry.lineno ?? 0}${entry.message ? `: ${entry.message}` : ''}`)
+        .slice(-MAX_STACK_FRAMES);
+    return { name, status: 'failed', ...(errorMessage ? { errorMessage } : {}), stack };
+}
+
+// Collection errors (syntax, imports, fixtures at module level) keep the "E " lines of the long report
+function formatCollectionError(longrepr: string): string {
+    const errorLines = longrepr.split('\n').filter(line => line.startsWith('E ')).map(line => line.slice(1).trim());
+    return (errorLines.length ? errorLines.slice(0, 5).join('\n') : longrepr.trim().split('\n').slice(-5).join('\n')).slice(0, 500);
+}
+
+/**
+ * Turn pytest-json-report output into one entry per requested file. Node ids are
+ * `path/to/test_file.py::Class::test_name`; files that failed to collect get a suite error.
+ */
+export function parsePytestJsonReport(raw: string, repoPath: string, testFiles: string[]): TestFileRun[] | null {
+    let report: { tests?: PytestTest[]; collectors?: PytestCollector[] };
+    try {
+        report = JSON.parse(raw);
+    } catch {
+        return null;
+    }
+    if (!Array.isArray(report?.tests)) return null;
+
+    const fileOf = (nodeid: string) => normalizeTestPath(nodeid.split('::')[0], repoPath);
+    const testsByFile = new Map<string, PytestTest[]>();
+    for (const test of report.tests) {
+        if (!test.nodeid) continue;
+        const file = fileOf(test.nodeid);
+        testsByFile.set(file, [...(testsByFile.get(file) ?? []), test]);
+    }
+    const collectionErrors = new Map<string, string>();
+    for (const collector of report.collectors ?? []) {
+        if (collector.nodeid && collector.outcome === 'failed') {
+            collectionErrors.set(fileOf(collector.nodeid), formatCollectionError(collector.longrepr ?? ''));
+        }
+    }
+
+    return testFiles.map((testFile): TestFileRun => {
+        const file = normalizeTestPath(testFile, repoPath);
+        const collectionError = collectionErrors.get(file);
+        const tests = testsByFile.get(file);
+        if (!tests && collectionError === undefined) {
+            return { testFile, passed: 0, failed: 0, skipped: 0, suiteError: "No results reported; the file was not collected by the test runner", cases: [] };
+        }
+        const cases = (tests ?? []).map(toPytestCaseResult);
+        const fileRun: TestFileRun = {
+            testFile,
+            passed: cases.filter(c => c.status === 'passed').length,
+            failed: cases.filter(c => c.status === 'failed').length,
+            skipped: cases.filter(c => c.status === 'skipped').length,
+            cases,
+        };
+        if (collectionError !== undefined) fileRun.suiteError = collectionError || "The file failed to import";
+        return fileRun;
+    });
+}
+
+// One event of the `go test -json` stream
+interface GoTestEvent {
+    Action?: string;
+    Package?: string;
+    Test?: string;
+    Output?: string;
+}
+
+// Failure lines as go test prints them: "    foo_test.go:42: got 1, want 2"
+const GO_FAILURE_LINE = /^\s*([\w./-]+\.go):(\d+): ?(.*)$/;
+
+function toGoCaseResult(test: string, action: string, output: string[]): TestCaseResult {
+    const name = test.split('/').join(' > ');
+    if (action === 'pass') return { name, status: 'passed' };
+    if (action !== 'fail') return { name, status: 'skipped' };
+    const failures = output.map(line => GO_FAILURE_LINE.exec(line)).filter((match): match is RegExpExecArray => !!match);
+    const panic = output.find(line => line.startsWith('panic:'));
+    const errorMessage = (panic ? [panic.trim()] : failures.map(match => match[3].trim())).slice(0, 3).join('\n');
+    const stack = failures.map(match => `${match[1]}:${match[2]}`).slice(0, MAX_STACK_FRAMES);
+    return { name, status: 'failed', ...(errorMessage ? { errorMessage } : {}), stack };
+}
+
+/**
+ * Turn the `go test -json` event stream into one entry per requested file. Events carry the
+ * test name but not its file, so tests are attributed through testNames (file -> the Test
+ * functions it declares); subtests of table-driven tests are reported as their own cases.
+ * Files whose package did not build get the compiler output as a suite error.
+ */
+export function parseGoTestJson(raw: string, testFiles: string[], testNames: Map<string, string[]>, buildOutput?: string): TestFileRun[] | null {
+    const events: GoTestEvent[] = [];
+    for (const line of raw.split('\n')) {
+        if (!line.startsWith('{')) continue;
+        try {
+            events.push(JSON.parse(line));
+        } catch {
+            // Interleaved non-JSON output
+        }
+    }
+    if (events.length === 0) return null;
+
+    const results = new Map<string, string>();
+    const outputs = new Map<string, string[]>();
+    const packageOutput: string[] = [];
+    for (const event of events) {
+        if (!event.Test) {
+            if (event.Output) packageOutput.push(event.Output.trimEnd());
+            continue;
+        }
+        if (event.Action === 'output' && event.Output) {
+            outputs.set(event.Test, [...(outputs.get(event.Test) ?? []), event.Output.trimEnd()]);
+        } else if (event.Action === 'pass' || event.Action === 'fail' || event.Action === 'skip') {
+            results.set(event.Test, event.Action);
+        }
+    }
+    // Parent tests of table-driven cases only summarise their subtests
+    const leaves = [...results.keys()].filter(test => ![...results.keys()].some(other => other.startsWith(`${test}/`)));
+    const buildFailed = packageOutput.some(line => /\[(build|setup) failed\]/.test(line));
+    const buildErrors = [...packageOutput, ...(buildOutput ?? '').split('\n')].filter(line => /\.go:\d+:\d+: /.test(line));
+
+    return testFiles.map((testFile): TestFileRun => {
+        const names = new Set(testNames.get(testFile) ?? []);
+        const cases = leaves
+            .filter(test => names.has(test.split('/')[0]))
+            .map(test => toGoCaseResult(test, results.get(test) ?? 'skip', outputs.get(test) ?? []));
+        if (cases.length === 0) {
+            const suiteError = buildFailed
+                ? `The package failed to build${buildErrors.length > 0 ? `:\n${buildErrors.slice(0, 5).join('\n')}` : ''}`
+                : names.size === 0
+                    ? "The file declares no Test functions"
+                    : "No results reported; the tests were not run by go test";
+            return { testFile, passed: 0, failed: 0, skipped: 0, suiteError, cases: [] };
+        }
+        return {
+            testFile,
+            passed: cases.filter(c => c.status === 'passed').length,
+            failed: cases.filter(c => c.status === 'failed').length,
+            skipped: cases.filter(c => c.status === 'skipped').length,
+            cases,
+        };
+    });
+}
+
+// Test functions each Go test file declares, for attributing `go test -json` events to files
+async function findGoTestNames(containerId: string, repoPath: string, testFiles: string[]): Promise<Map<string, string[]>> {
+    const { stdout } = await dockerBash(
+        containerId,
+        `cd ${shellEscape(repoPath)} && grep -H -o -E '^func Test[A-Za-z0-9_]*' ${testFiles.map(shellEscape).join(' ')} 2>/dev/null`
+    );
+    const names = new Map<string, string[]>();
+    for (const line of stdout.split('\n')) {
+        const match = /^(.+):func (Test\w*)$/.exec(line.trim());
+        if (match) names.set(match[1], [...(names.get(match[1]) ?? []), match[2]]);
+    }
+    return names;
+}
+
+// Frames of the JDK, the test engine and the build tool, which say nothing about the code under test
+const JVM_FRAMEWORK_FRAME = /^at (java\.|jdk\.|sun\.|org\.junit\.|org\.opentest4j\.|org\.mockito\.|org\.apache\.maven\.|org\.gradle\.|worker\.org\.gradle\.)/;
+// Compiler errors as javac prints them through Maven ("Foo.java:[12,5] ...") and Gradle ("Foo.java:12: error: ...")
+const JAVAC_ERROR_LINE = /\.java:(\[\d+,\d+\]|\d+: error:) /;
+
+function decodeXmlEntities(text: string): string {
+    return text
+        .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+function xmlAttribute(attributes: string, name: string): string | undefined {
+    const match = new RegExp(`\\b${name}="([^"]*)"`).exec(attributes);
+    return match ? decodeXmlEntities(match[1]) : undefined;
+}
+
+function toJUnitCaseResult(name: string, body: string): TestCaseResult {
+    const problem = /<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/.exec(body);
+    if (!problem) return { name, status: /<skipped\b/.test(body) ? 'skipped' : 'passed' };
+    const trace = decodeXmlEntities((problem[3] ?? '').replace(/^<!\[CDATA\[|\]\]>$/g, ''));
+    const { errorMessage, stack } = splitFailure(trace || xmlAttribute(problem[2], 'message') || '');
+    const ownFrames = stack.length > 0 ? trace.split('\n').map(line => line.trim()).filter(line => line.startsWith('at ') && !JVM_FRAMEWORK_FRAME.test(line)) : [];
+    return {
+        name,
+        status: 'failed',
+        ...(errorMessage ? { errorMessage } : {}),
+        stack: (ownFrames.length > 0 ? ownFrames : stack).slice(0, MAX_STACK_FRAMES),
+    };
+}
+
+/**
+ * Turn the JUnit XML reports of Surefire or Gradle (concatenated, one per test class) into one
+ * entry per requested file. Cases are attributed through their class name; @Nested classes
+ * (`FooTest$WhenEmpty`) belong to the file of their outer class. Files without results get the
+ * compiler errors from buildOutput when the test sources did not compile.
+ */
+export function parseJUnitXmlReport(raw: string, testFiles: string[], buildOutput?: string): TestFileRun[] | null {
+    const casesByClass = new Map<string, TestCaseResult[]>();
+    for (const match of raw.matchAll(/<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g)) {
+        const classname = xmlAttribute(match[1], 'classname') ?? '';
+        const [outer, ...nested] = classname.split('$');
+        const name = [...nested, xmlAttribute(match[1], 'name') ?? ''].filter(Boolean).join(' > ');
+        casesByClass.set(outer, [...(casesByClass.get(outer) ?? []), toJUnitCaseResult(name, match[2] ?? '')]);
+    }
+    const compileErrors = (buildOutput ?? '').split('\n').filter(line => JAVAC_ERROR_LINE.test(line)).map(line => line.replace(/^\[ERROR\]\s*/, '').trim());
+    if (casesByClass.size === 0 && compileErrors.length === 0 && !/<testsuite\b/.test(raw)) return null;
+
+    return testFiles.map((testFile): TestFileRun => {
+        const cases = casesByClass.get(javaTestClass(testFile)) ?? [];
+        if (cases.length === 0) {
+            const fileName = path.posix.basename(testFile);
+            const ownErrors = compileErrors.filter(line => line.includes(fileName));
+            const suiteError = compileErrors.length > 0
+                ? `The test sources failed to compile:\n${(ownErrors.length > 0 ? ownErrors : compileErrors).slice(0, 5).join('\n')}`
+                : "No results reported; the class was not run by the build's test task";
+            return { testFile, passed: 0, failed: 0, skipped: 0, suiteError, cases: [] };
+        }
+        return {
+            testFile,
+            passed: cases.filter(c => c.status === 'passed').length,
+            failed: cases.filter(c => c.status === 'failed').length,
+            skipped: cases.filter(c => c.status === 'skipped').length,
+            cases,
+        };
+    });
+}
+
+// libtest result lines: "test parser::tests::rejects_empty_input ... FAILED"
+const CARGO_RESULT_LINE = /^test (\S+) \.\.\. (ok|FAILED|ignored)\b/;
+// rustc errors ("error[E0425]: cannot find value `x` in this scope"), not cargo's closing summary
+const RUSTC_ERROR_LINE = /^error(\[E\d+\])?: (?!could not compile|aborting)/;
+
+function toCargoCaseResult(name: string, result: string, output: string[]): TestCaseResult {
+    if (result === 'ok') return { name, status: 'passed' };
+    if (result !== 'FAILED') return { name, status: 'skipped' };
+    // Since Rust 1.73 the message follows "panicked at src/lib.rs:12:5:"; before it was "panicked at 'message', src/lib.rs:12:5"
+    const panicIndex = output.findIndex(line => /^thread '.*' panicked at /.test(line));
+    const panic = panicIndex === -1 ? undefined : /panicked at (?:'(.*)', )?(\S+?:\d+:\d+):?$/.exec(output[panicIndex]);
+    const messageLines = panic?.[1] !== undefined
+        ? [panic[1]]
+        : output.slice(panicIndex + 1).filter(line => line.trim() && !line.startsWith('note: '));
+    const errorMessage = messageLines.slice(0, 3).map(line => line.trim()).join('\n');
+    return { name, status: 'failed', ...(errorMessage ? { errorMessage } : {}), stack: panic ? [panic[2]] : [] };
+}
+
+// Compiler errors with their location: "src/lib.rs:10:5: error[E0425]: cannot find value `x` in this scope"
+function findRustcErrors(buildOutput: string): string[] {
+    const lines = buildOutput.split('\n');
+    return lines.flatMap((line, index) => {
+        if (!RUSTC_ERROR_LINE.test(line)) return [];
+        const location = lines.slice(index + 1, index + 4).map(next => /^\s*--> (\S+)/.exec(next)?.[1]).find(Boolean);
+        return [location ? `${location}: ${line.trim()}` : line.trim()];
+    });
+}
+
+/**
+ * Turn `cargo test` output (one section per crate, see CARGO_CRATE_MARKER) into one entry per
+ * requested file. Tests are attributed through their name: the tests of src/foo/bar.rs are
+ * `foo::bar::tests::*` in its crate. Files without results get the compiler errors from
+ * buildOutput when the crate did not compile.
+ */
+export function parseCargoTestOutput(raw: string, testFiles: string[], buildOutput?: string): TestFileRun[] | null {
+    const sections = new Map<string, { results: Map<string, string>; outputs: Map<string, string[]> }>();
+    let section: { results: Map<string, string>; outputs: Map<string, string[]> } | undefined;
+    let captured: string[] | undefined;
+    for (const line of raw.split('\n')) {
+        if (line.startsWith(`${CARGO_CRATE_MARKER} `)) {
+            section = { results: new Map(), outputs: new Map() };
+            sections.set(line.substring(CARGO_CRATE_MARKER.length + 1).trim(), section);
+            captured = undefined;
+            continue;
+        }
+        if (!section) continue;
+        const result = CARGO_RESULT_LINE.exec(line);
+        const header = /^---- (\S+) stdout ----$/.exec(line);
+        if (result) {
+            section.results.set(result[1], result[2]);
+        } else if (header) {
+            captured = [];
+            section.outputs.set(header[1], captured);
+        } else if (/^(failures:|test result: )/.test(line)) {
+            captured = undefined;
+        } else {
+            captured?.push(line);
+        }
+    }
+    if (sections.size === 0) return null;
+    const compileErrors = findRustcErrors(buildOutput ?? '');
+
+    return testFiles.map((testFile): TestFileRun => {
+        const { crateDir, modulePath } = rustTestModule(testFile);
+        const crate = sections.get(crateDir);
+        const prefix = rustTestFilter(modulePath);
+        const cases = [...(crate?.results ?? [])]
+            .filter(([name]) => name.startsWith(prefix))
+            .map(([name, result]) => toCargoCaseResult(name.substring(prefix.length).split('::').join(' > '), result, crate?.outputs.get(name) ?? []));
+        if (cases.length === 0) {
+            const ownErrors = compileErrors.filter(line => line.startsWith(`${testFile}:`));
+            const suiteError = compileErrors.length > 0
+                ? `The crate failed to compile:\n${(ownErrors.length > 0 ? ownErrors : compileErrors).slice(0, 5).join('\n')}`
+                : "No results reported; the file has no #[cfg(test)] mod tests block with #[test] functions";
+            return { testFile, passed: 0, failed: 0, skipped: 0, suiteError, cases: [] };
+        }
+        return {
+            testFile,
+            passed: cases.filter(c => c.status === 'passed').length,
+            failed: cases.filter(c => c.status === 'failed').length,
+            skipped: cases.filter(c => c.status === 'skipped').length,
+            cases,
+        };
+    });
+}
+
+/**
+ * Run the given test files with the repository's test framework inside the container and
+ * return the measured results. Without a framework (e.g. follow-up runs) it is detected.
+ * Dependencies are installed in the sandbox's install phase; the run itself uses the test phase.
+ */
+export async function runTestFiles(containerId: string, repoPath: string, testFiles: string[], framework?: DetectedTestFramework): Promise<TestRunReport> {
+    const cd = `cd ${shellEscape(repoPath)}`;
+    const startedAt = Date.now();
+    const detected = framework ?? await detectTestFramework(containerId, repoPath);
+    const profile = getTestFrameworkProfile(detected.framework);
+
+    await withSandboxPhase(containerId, "install", () => dockerBash(containerId, `${cd} && ${buildRunnerInstallScript(detected)}`));
+
+    const reportFile = `/tmp/${profile.id}-report-${Date.now()}.json`;
+    const logFile = `${reportFile}.log`;
+    // A runner that reports on stdout keeps only stderr (e.g. compiler output) in the log
+    const redirect = profile.reportOnStdout ? `> ${reportFile} 2> ${logFile}` : `> ${logFile} 2>&1`;
+    const runCommand = `${profile.testCommand(testFiles, detected)} ${profile.reportArgs(reportFile)}`;
+    const collect = profile.collectReport ? `; ${profile.collectReport(reportFile)}` : '';
+    const { stdout } = await withSandboxPhase(containerId, "test", () => dockerBash(
+        containerId,
+        `${cd} && timeout ${TEST_RUN_TIMEOUT_SECONDS} bash -c ${shellEscape(runCommand)} ${redirect}; echo "__EXIT:$?"${collect}; tail -c ${OUTPUT_TAIL_CHARS} ${logFile}`
+    ));
+    const exitMatch = stdout.match(/__EXIT:(\d+)/);
+    const exitCode = exitMatch ? Number(exitMatch[1]) : 1;
+    const outputTail = stdout.replace(/^[\s\S]*?__EXIT:\d+\n?/, '').trim();
+
+    const { stdout: rawReport } = await dockerBash(containerId, `cat ${reportFile} 2>/dev/null; rm -f ${reportFile} ${logFile}`);
+    const files = profile.reportFormat === "pytest-json"
+        ? parsePytestJsonReport(rawReport, repoPath, testFiles)
+        : profile.reportFormat === "go-test-json"
+            ? parseGoTestJson(rawReport, testFiles, await findGoTestNames(containerId, repoPath, testFiles), outputTail)
+            : profile.reportFormat === "junit-xml"
+                ? parseJUnitXmlReport(rawReport, testFiles, outputTail)
+                : profile.reportFormat === "cargo-test"
+                    ? parseCargoTestOutput(rawReport, testFiles, outputTail)
+                    : parseJsonTestReport(rawReport, repoPath, testFiles);
+    const durationMs = Date.now() - startedAt;
+
+    if (!files) {
+        // No structured report (runner crashed, timed out or is misconfigured): every file failed to run
+        const suiteError = exitCode === 124
+            ? `Test run timed out after ${TEST_RUN_TIMEOUT_SECONDS}s`
+            : `Test runner produced no report (exit code ${exitCode})`;
+        return {
+            runner: profile.id,
+            exitCode,
+            durationMs,
+            files: testFiles.map(testFile => ({ testFile, passed: 0, failed: 0, skipped: 0, suiteError, cases: [] })),
+            outputTail,
+        };
+    }
+
+    return { runner: profile.id, exitCode, durationMs, files };
+}
+
+/**
+ * Measure suite coverage directly for frameworks whose coverage report the pipeline reads itself
+ * (see TestFrameworkProfile.coverageReport). Null when the framework has none or no report was
+ * written; callers fall back to the coverage agent.
+ */
+export async function measureCoverage(containerId: string, repoPath: string, detected: DetectedTestFramework, excludedTestFiles: string[] = []): Promise<MeasuredCoverage | null> {
+    const profile = getTestFrameworkProfile(detected.framework);
+    if (!profile.coverageReport) return null;
+    const cd = `cd ${shellEscape(repoPath)}`;
+
+    await withSandboxPhase(containerId, "install", () => dockerBash(containerId, `${cd} && ${buildRunnerInstallScript(detected)}`));
+    await withSandboxPhase(containerId, "test", () => dockerBash(containerId, `${cd} && timeout ${COVERAGE_RUN_TIMEOUT_SECONDS} bash -c ${shellEscape(profile.coverageCommand(excludedTestFiles, detected))} > /dev/null 2>&1`));
+    const { stdout } = await dockerBash(containerId, `cat ${profile.coverageReport.file} 2>/dev/null`);
+    return profile.coverageReport.parse(stdout, detected);
+}
+
+/**
+ * True when every case in the file ran and passed.
+ */
+export function isFileRunPassing(fileRun: TestFileRun): boolean {
+    return !fileRun.suiteError && fileRun.failed === 0 && fileRun.passed > 0;
+}
+
+/**
+ * Concrete failure feedback for a retry prompt: the load error or each failing case with its
+ * message and top stack frames.
+ */
+export function formatFileRunFailures(fileRun: TestFileRun, outputTail?: string): string {
+    const lines = [`Running ${fileRun.testFile}: ${fileRun.passed} passed, ${fileRun.failed} failed, ${fileRun.skipped} skipped`];
+    if (fileRun.suiteError) {
+        lines.push(`The file failed to load: ${fileRun.suiteError}`);
+        if (outputTail) lines.push('Runner output (tail):', outputTail.slice(-1500));
+    } else if (fileRun.passed + fileRun.failed === 0) {
+        lines.push('No test cases ran; the file must contain at least one executable test');
+    }
+    for (const testCase of fileRun.cases.filter(c => c.status === 'failed')) {
+        lines.push(`✗ ${testCase.name}`);
+        if (testCase.errorMessage) lines.push(`  ${testCase.errorMessage.replace(/\n/g, '\n  ')}`);
+        for (const frame of testCase.stack ?? []) lines.push(`    ${frame}`);
+    }
+    return lines.join('\n');
+}
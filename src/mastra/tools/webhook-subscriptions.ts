@@ -0,0 +1,33 @@
+import type { WebhookEventKind, WebhookSubscription } from "../types";
+
+// Which GitHub repository each project follows, so webhook deliveries (keyed by repository) can
+// be turned into runs of the right project. Kept for the lifetime of the server process.
+
+const projectSubscriptions = new Map<string, WebhookSubscription>();
+
+export function getProjectWebhookSubscription(projectId: string | undefined): WebhookSubscription | undefined {
+    return projectId ? projectSubscriptions.get(projectId) : undefined;
+}
+
+export function setProjectWebhookSubscription(projectId: string, subscription: WebhookSubscription): WebhookSubscription {
+    projectSubscriptions.set(projectId, subscription);
+    return subscription;
+}
+
+export function clearProjectWebhookSubscription(projectId: string): boolean {
+    return projectSubscriptions.delete(projectId);
+}
+
+/**
+ * Projects subscribed to an event of a repository (`owner/repo`, case-insensitive).
+ */
+export function findSubscribedProjects(repositoryFullName: string, event: WebhookEventKind): string[] {
+    const wanted = repositoryFullName.toLowerCase();
+    const projects: string[] = [];
+    for (const [projectId, subscription] of projectSubscriptions) {
+        if (subscription.repository.toLowerCase() === wanted && subscription.events.includes(event)) {
+            projects.push(projectId);
+        }
+    }
+    return projects;
+}
@@ -30,6 +30,16 @@ export const CoverageStatsSchema = z.object({
 
 export type CoverageStats = z.infer<typeof CoverageStatsSchema>;
 
+/**
+ * Coverage of one source file, for runners that report per-file coverage.
+ */
+export const FileCoverageSchema = CoverageMetricSchema.extend({
+    file: z.string().describe("Source file, relative to the repository root or (JaCoCo) to its source root"),
+    unit: z.enum(["statements", "lines"]).describe("What total/covered count: go test reports statements, JaCoCo lines"),
+});
+
+export type FileCoverage = z.infer<typeof FileCoverageSchema>;
+
 // =============================================================================
 // COVERAGE RESULTS
 // =============================================================================
@@ -0,0 +1,63 @@
+/**
+ * Diff scope types.
+ * Incremental runs that only test what changed between two refs of the repository.
+ */
+import z from "zod";
+
+// =============================================================================
+// REQUEST
+// =============================================================================
+
+/**
+ * Commit range a run is restricted to: a base and head ref, or a pull/merge request number.
+ */
+export const DiffScopeInputSchema = z.object({
+    baseRef: z.string().min(1).optional().describe("Branch, tag or commit the changes are compared against (default: the PR's target branch)"),
+    headRef: z.string().min(1).optional().describe("Branch, tag or commit with the changes (default: the PR's source branch, else the cloned HEAD)"),
+    prNumber: z.number().int().positive().optional().describe("Pull/merge request whose changes are tested"),
+}).refine(scope => scope.baseRef !== undefined || scope.prNumber !== undefined, {
+    message: "Provide baseRef or prNumber",
+});
+
+export type DiffScopeInput = z.infer<typeof DiffScopeInputSchema>;
+
+// =============================================================================
+// RESOLVED SCOPE
+// =============================================================================
+
+/**
+ * Lines of the head version touched by the diff (a pure deletion marks the line it happened at).
+ */
+export const ChangedLineRangeSchema = z.object({
+    start: z.number(),
+    end: z.number(),
+});
+
+export type ChangedLineRange = z.infer<typeof ChangedLineRangeSchema>;
+
+/**
+ * A source file added or modified in the range.
+ */
+export const ChangedSourceFileSchema = z.object({
+    path: z.string().describe("Path relative to the repository root"),
+    status: z.enum(["added", "modified", "renamed"]),
+    ranges: z.array(ChangedLineRangeSchema),
+    functions: z.array(z.string()).describe("Functions, methods and classes the hunks touch, as far as the diff shows them"),
+});
+
+export type ChangedSourceFile = z.infer<typeof ChangedSourceFileSchema>;
+
+/**
+ * Commit range resolved inside the run's container.
+ */
+export const DiffScopeSchema = z.object({
+    baseRef: z.string(),
+    headRef: z.string(),
+    baseSha: z.string().describe("Merge base of base and head"),
+    headSha: z.string(),
+    headBranch: z.string().optional().describe("Set when the head is a branch; bot PRs then target it"),
+    prNumber: z.number().optional(),
+    files: z.array(ChangedSourceFileSchema),
+});
+
+export type DiffScope = z.infer<typeof DiffScopeSchema>;
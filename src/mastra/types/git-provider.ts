@@ -0,0 +1,132 @@
+/**
+ * Git hosting provider types shared by clone, metadata and pull/merge request steps.
+ */
+import z from "zod";
+
+// =============================================================================
+// PROVIDER
+// =============================================================================
+
+/**
+ * Supported hosting providers. GitLab includes self-hosted instances; Bitbucket means Bitbucket Cloud.
+ */
+export const GitProviderKindSchema = z.enum(["github", "gitlab", "bitbucket"]);
+
+export type GitProviderKind = z.infer<typeof GitProviderKindSchema>;
+
+/**
+ * Provider-neutral repository coordinates.
+ */
+export const RepoRefSchema = z.object({
+    provider: GitProviderKindSchema.describe("Hosting provider"),
+    host: z.string().describe("Web host, e.g. 'github.com' or 'gitlab.example.com'"),
+    owner: z.string().describe("Owner, workspace or (possibly nested) GitLab group path"),
+    repo: z.string().describe("Repository name without .git"),
+});
+
+export type RepoRef = z.infer<typeof RepoRefSchema>;
+
+// =============================================================================
+// METADATA & PULL REQUESTS
+// =============================================================================
+
+/**
+ * Repository metadata used for project description and stack detection.
+ */
+export const RepoMetadataSchema = z.object({
+    description: z.string().optional(),
+    topics: z.array(z.string()).optional(),
+    defaultBranch: z.string().optional(),
+    languages: z.record(z.string(), z.number()).optional().describe("Language name -> weight (bytes or percentage)"),
+});
+
+export type RepoMetadata = z.infer<typeof RepoMetadataSchema>;
+
+/**
+ * Outcome of opening a pull/merge request. Failures keep the HTTP status so callers can recover.
+ */
+export const PullRequestResultSchema = z.discriminatedUnion("ok", [
+    z.object({ ok: z.literal(true), url: z.string(), number: z.number().optional() }),
+    z.object({ ok: z.literal(false), status: z.number(), text: z.string() }),
+]);
+
+export type PullRequestResult = z.infer<typeof PullRequestResultSchema>;
+
+/**
+ * An open pull/merge request found by its source branch.
+ */
+export const OpenPullRequestSchema = z.object({
+    number: z.number().describe("PR number (GitLab: merge request iid)"),
+    url: z.string().describe("Browser URL of the pull/merge request"),
+    head: z.string().describe("Source branch"),
+    base: z.string().optional().describe("Target branch"),
+});
+
+export type OpenPullRequest = z.infer<typeof OpenPullRequestSchema>;
+
+// =============================================================================
+// PR POLICY
+// =============================================================================
+
+/**
+ * How repeated runs of a project publish their tests: keep updating one bot PR, or open a new one each run.
+ */
+export const PrPolicyModeSchema = z.enum(["update_existing", "always_new"]);
+
+export type PrPolicyMode = z.infer<typeof PrPolicyModeSchema>;
+
+export const PrPolicySchema = z.object({
+    mode: PrPolicyModeSchema.describe("update_existing reuses the project's open bot PR; always_new opens a fresh branch and PR"),
+});
+
+export type PrPolicy = z.infer<typeof PrPolicySchema>;
+
+/**
+ * Per-project override accepted by the API; unset fields fall back to the defaults.
+ */
+export const PrPolicyOverrideSchema = PrPolicySchema.partial();
+
+export type PrPolicyOverride = z.infer<typeof PrPolicyOverrideSchema>;
+
+/**
+ * What a run changed on a project's existing bot PR, posted as a comment on the PR.
+ */
+export const PrRefreshSummarySchema = z.object({
+    added: z.array(z.string()).describe("Test files new in this run"),
+    updated: z.array(z.string()).describe("Test files regenerated with different content"),
+    unchanged: z.array(z.string()).describe("Test files regenerated with identical content"),
+    carriedOver: z.array(z.string()).describe("Test files from earlier runs kept on the branch"),
+});
+
+export type PrRefreshSummary = z.infer<typeof PrRefreshSummarySchema>;
+
+// =============================================================================
+// CI CHECKS
+// =============================================================================
+
+/**
+ * One CI result on a commit: a GitHub check run or commit status, a GitLab job status or a
+ * Bitbucket build status.
+ */
+export const CiCheckSchema = z.object({
+    name: z.string(),
+    state: z.enum(["pending", "success", "failure", "skipped"]),
+    url: z.string().optional(),
+    jobId: z.string().optional().describe("Provider job id whose log can be downloaded"),
+});
+
+export type CiCheck = z.infer<typeof CiCheckSchema>;
+
+/**
+ * Final CI state of the PR's head commit after watching (and fixing) it.
+ */
+export const CiReportSchema = z.object({
+    state: z.enum(["success", "failure", "pending", "none"]).describe("'pending' when the watch timed out, 'none' when no CI reported on the commit"),
+    headSha: z.string(),
+    checks: z.array(CiCheckSchema),
+    fixAttempts: z.number().describe("Follow-up commits pushed to fix failing checks"),
+    fixedFiles: z.array(z.string()).describe("Test files patched across those commits"),
+    reason: z.string().optional().describe("Why the watch stopped without green CI"),
+});
+
+export type CiReport = z.infer<typeof CiReportSchema>;
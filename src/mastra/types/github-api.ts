@@ -114,6 +114,111 @@ export const GitHubCommentSchema = z.object({
 
 export type GitHubComment = z.infer<typeof GitHubCommentSchema>;
 
+/**
+ * GitHub pull request review comment (a comment on a line of the diff).
+ */
+export const GitHubReviewCommentSchema = GitHubCommentSchema.extend({
+    user: GitHubCommentSchema.shape.user.extend({
+        type: z.string().optional(),
+    }),
+    path: z.string(),
+    line: z.number().nullable().optional(),
+    start_line: z.number().nullable().optional(),
+    original_line: z.number().nullable().optional(),
+    diff_hunk: z.string().optional(),
+    commit_id: z.string().optional(),
+    in_reply_to_id: z.number().nullable().optional(),
+    pull_request_review_id: z.number().nullable().optional(),
+});
+
+export type GitHubReviewComment = z.infer<typeof GitHubReviewCommentSchema>;
+
+// =============================================================================
+// WEBHOOKS
+// =============================================================================
+
+/**
+ * `pull_request_review` webhook payload (fields we use).
+ */
+export const GitHubPullRequestReviewEventSchema = z.object({
+    action: z.string(),
+    review: z.object({
+        id: z.number(),
+        state: z.string(),
+        user: z.object({
+            login: z.string(),
+            type: z.string().optional(),
+        }),
+    }),
+    pull_request: z.object({
+        number: z.number(),
+        state: z.string(),
+        head: z.object({ ref: z.string() }),
+        base: z.object({ ref: z.string() }),
+    }),
+    repository: z.object({
+        name: z.string(),
+        full_name: z.string(),
+        owner: z.object({ login: z.string() }),
+    }),
+    installation: z.object({ id: z.number() }).optional(),
+});
+
+export type GitHubPullRequestReviewEvent = z.infer<typeof GitHubPullRequestReviewEventSchema>;
+
+/**
+ * `push` webhook payload (fields we use).
+ */
+export const GitHubPushEventSchema = z.object({
+    ref: z.string(),
+    after: z.string(),
+    deleted: z.boolean().optional(),
+    repository: z.object({
+        name: z.string(),
+        full_name: z.string(),
+        default_branch: z.string(),
+    }),
+    installation: z.object({ id: z.number() }).optional(),
+});
+
+export type GitHubPushEvent = z.infer<typeof GitHubPushEventSchema>;
+
+/**
+ * `pull_request` webhook payload (fields we use).
+ */
+export const GitHubPullRequestEventSchema = z.object({
+    action: z.string(),
+    number: z.number(),
+    pull_request: z.object({
+        number: z.number(),
+        state: z.string(),
+        draft: z.boolean().optional(),
+        head: z.object({
+            ref: z.string(),
+            sha: z.string(),
+            repo: z.object({ full_name: z.string() }).nullable(),
+        }),
+        base: z.object({ ref: z.string() }),
+    }),
+    repository: z.object({
+        name: z.string(),
+        full_name: z.string(),
+    }),
+    installation: z.object({ id: z.number() }).optional(),
+});
+
+export type GitHubPullRequestEvent = z.infer<typeof GitHubPullRequestEventSchema>;
+
+/**
+ * Entry of GET /repos/{owner}/{repo}/pulls/{number}/files.
+ */
+export const GitHubPullRequestFileSchema = z.object({
+    filename: z.string(),
+    status: z.string(),
+});
+
+export type GitHubPullRequestFile = z.infer<typeof GitHubPullRequestFileSchema>;
+
 // =============================================================================
 // API ERROR
 // =============================================================================
@@ -12,15 +12,42 @@ export * from "./workflow-context";
 // Test generation types
 export * from "./test-generation";
 
+// Test execution types
+export * from "./test-execution";
+
 // Coverage types
 export * from "./coverage";
 
 // GitHub API types
 export * from "./github-api";
 
+// Git hosting provider types
+export * from "./git-provider";
+
+// Pull request template types
+export * from "./pr-template";
+
+// Dry-run patch artifact types
+export * from "./patch-artifact";
+
+// Review follow-up types
+export * from "./review-followup";
+
+// Webhook subscription types
+export * from "./webhook";
+
+// Diff scope types
+export * from "./diff-scope";
+
+// Plan approval types
+export * from "./plan-approval";
+
 // Repository analysis types
 export * from "./repository-analysis";
 
+// Sandbox policy types
+export * from "./sandbox";
+
 // Agent types
 export * from "./agent";
 
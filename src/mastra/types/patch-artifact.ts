@@ -0,0 +1,41 @@
+/**
+ * Dry-run patch artifact types.
+ * What a dry run produces instead of a pushed branch: a patch, a unified diff and a manifest.
+ */
+import z from "zod";
+import { PrCoverageSchema } from "./pr-template";
+
+// =============================================================================
+// MANIFEST
+// =============================================================================
+
+/**
+ * One generated test file in the patch, with its measured result when the tests were run.
+ */
+export const PatchFileEntrySchema = z.object({
+    testFile: z.string().describe("Test file path relative to the repository root"),
+    sourceFile: z.string().describe("Source file the tests cover"),
+    testCasesCount: z.number(),
+    passed: z.number().optional(),
+    failed: z.number().optional(),
+    suiteError: z.string().optional(),
+});
+
+export type PatchFileEntry = z.infer<typeof PatchFileEntrySchema>;
+
+/**
+ * JSON manifest served next to the patch.
+ */
+export const PatchManifestSchema = z.object({
+    runId: z.string(),
+    projectId: z.string(),
+    baseCommit: z.string().describe("Commit the patch applies to"),
+    baseBranch: z.string().optional().describe("Branch checked out when the patch was made"),
+    createdAt: z.string().datetime(),
+    files: z.array(PatchFileEntrySchema),
+    notIncluded: z.array(z.string()).describe("Planned source files without a generated test file"),
+    unexpectedChanges: z.array(z.string()).describe("Working-tree changes left out of the patch"),
+    coverage: PrCoverageSchema.optional().describe("Filled in once the coverage phase has run on the patched tree"),
+});
+
+export type PatchManifest = z.infer<typeof PatchManifestSchema>;
@@ -3,15 +3,17 @@
  * These schemas ensure type safety across the full pipeline workflow.
  */
 import z from "zod";
-import { ContextDataSchema } from "./workflow-context";
+import { ContextDataSchema, RuntimeProfileSchema } from "./workflow-context";
 import { 
     RepoTestAnalysisSchema, 
     TestSpecificationSchema, 
     TestGenerationResultSchema,
     UnitTestResultSchema,
 } from "./test-generation";
-import { CoverageStatsSchema } from "./coverage";
+import { CoverageStatsSchema, FileCoverageSchema } from "./coverage";
 import { RepoContextSchema } from "./repository-analysis";
+import { CiReportSchema, GitProviderKindSchema, OpenPullRequestSchema, PrRefreshSummarySchema } from "./git-provider";
+import { DiffScopeInputSchema } from "./diff-scope";
 
 // =============================================================================
 // PIPELINE INPUT
@@ -22,8 +24,9 @@ import { RepoContextSchema } from "./repository-analysis";
  */
 export const PipelineInputSchema = z.object({
     contextData: ContextDataSchema.optional().describe("Optional context data to save to the container during docker setup"),
-    repositoryUrl: z.string().optional().describe("Optional repository URL or owner/repo format (e.g., 'owner/repo' or 'https://github.com/owner/repo')"),
+    repositoryUrl: z.string().optional().describe("Optional repository URL or owner/repo format (e.g., 'owner/repo', 'https://github.com/owner/repo' or a GitLab/Bitbucket URL)"),
     projectId: z.string().describe("Project ID associated with this workflow run"),
+    diffScope: DiffScopeInputSchema.optional().describe("Restrict the run to source files changed in a commit range or pull request"),
 });
 
 export type PipelineInput = z.infer<typeof PipelineInputSchema>;
@@ -43,6 +46,7 @@ export const TestDockerStepOutputSchema = z.object({
     contextData: ContextDataSchema.optional().describe("Context data passed through"),
     repositoryUrl: z.string().optional().describe("Repository URL passed through"),
     projectId: z.string().describe("Project ID passed through"),
+    diffScope: DiffScopeInputSchema.optional().describe("Commit range passed through to the clone"),
 });
 
 export type TestDockerStepOutput = z.infer<typeof TestDockerStepOutputSchema>;
@@ -56,11 +60,20 @@ export const TestDockerGithubCloneStepOutputSchema = TestDockerStepOutputSchema.
 
 export type TestDockerGithubCloneStepOutput = z.infer<typeof TestDockerGithubCloneStepOutputSchema>;
 
+/**
+ * Step 2b: provisionRuntimeStep output - Workspace moved into a runtime-specific container.
+ */
+export const ProvisionRuntimeStepOutputSchema = TestDockerGithubCloneStepOutputSchema.extend({
+    runtime: RuntimeProfileSchema.optional().describe("Runtime the run container was provisioned with"),
+});
+
+export type ProvisionRuntimeStepOutput = z.infer<typeof ProvisionRuntimeStepOutputSchema>;
+
 /**
  * Step 3: postProjectDescriptionStep / postProjectStackStep output (same structure).
  * These run in parallel and return the same structure as their input.
  */
-export const PostProjectStepOutputSchema = TestDockerGithubCloneStepOutputSchema;
+export const PostProjectStepOutputSchema = ProvisionRuntimeStepOutputSchema;
 
 export type PostProjectStepOutput = z.infer<typeof PostProjectStepOutputSchema>;
 
@@ -85,6 +98,7 @@ export const DockerSaveContextStepOutputSchema = z.object({
     contextPath: z.string().describe("Path where context was saved in the container"),
     repoPath: z.string().describe("Absolute path to the cloned repository inside the container"),
     projectId: z.string().describe("Project ID passed through"),
+    runtime: RuntimeProfileSchema.optional().describe("Runtime the run container was provisioned with"),
 });
 
 export type DockerSaveContextStepOutput = z.infer<typeof DockerSaveContextStepOutputSchema>;
@@ -332,7 +346,13 @@ export const PrepareCommitAndPushStepOutputSchema = z.object({
     baseBranch: z.string(),
     repoOwner: z.string(),
     repoName: z.string(),
+    provider: GitProviderKindSchema.optional(),
+    repoHost: z.string().optional(),
     commitMessage: z.string(),
+    committedFiles: z.array(z.string()).default([]),
+    unexpectedChanges: z.array(z.string()).default([]),
+    existingPr: OpenPullRequestSchema.optional(),
+    refreshSummary: PrRefreshSummarySchema.optional(),
     projectId: z.string(),
     testGeneration: TestGenerationResultSchema.optional(),
     repoAnalysis: RepoTestAnalysisSchema.optional(),
@@ -376,6 +396,15 @@ export const PostPrUrlStepOutputSchema = z.object({
 
 export type PostPrUrlStepOutput = z.infer<typeof PostPrUrlStepOutputSchema>;
 
+/**
+ * watchPrChecksStep output - CI state of the PR head after any fix commits.
+ */
+export const WatchPrChecksStepOutputSchema = PostPrUrlStepOutputSchema.extend({
+    ci: CiReportSchema.optional(),
+});
+
+export type WatchPrChecksStepOutput = z.infer<typeof WatchPrChecksStepOutputSchema>;
+
 // =============================================================================
 // PHASE 5: COVERAGE
 // =============================================================================
@@ -387,12 +416,14 @@ export const RunTypescriptVitestCoverageStepOutputSchema = z.object({
     containerId: z.string(),
     projectId: z.string(),
     coverage: z.number(),
+    baselineCoverage: z.number().optional(),
     repoPath: z.string(),
     language: z.string(),
     framework: z.string(),
     method: z.string(),
     stats: CoverageStatsSchema,
     files: z.number(),
+    fileCoverage: z.array(FileCoverageSchema).optional(),
     prUrl: z.string().optional(),
     contextPath: z.string().optional(),
     result: z.string().optional(),
@@ -0,0 +1,67 @@
+/**
+ * Plan approval types.
+ * A planned run can wait for a person to review, edit and approve (or reject) its test plan
+ * before any test code is generated.
+ */
+import z from "zod";
+import { RepoTestAnalysisSchema, TestSpecificationSchema } from "./test-generation";
+
+// =============================================================================
+// PLAN REVIEW
+// =============================================================================
+
+export const PlanApprovalStatusSchema = z.enum(["pending", "approved", "rejected", "expired"]);
+
+export type PlanApprovalStatus = z.infer<typeof PlanApprovalStatusSchema>;
+
+/**
+ * The plan a run is waiting on: modules with their priorities and per-function test cases.
+ */
+export const TestPlanSchema = z.object({
+    repoAnalysis: RepoTestAnalysisSchema,
+    testSpecs: z.array(TestSpecificationSchema),
+});
+
+export type TestPlan = z.infer<typeof TestPlanSchema>;
+
+/**
+ * Review state of a run's plan, as served by GET /runs/:runId/plan.
+ */
+export const PlanReviewSchema = z.object({
+    runId: z.string(),
+    projectId: z.string().optional(),
+    status: PlanApprovalStatusSchema,
+    plan: TestPlanSchema,
+    edited: z.boolean().describe("Whether a reviewer changed the plan the planner produced"),
+    requestedAt: z.string().datetime(),
+    expiresAt: z.string().datetime().describe("The run fails if nobody decides by then"),
+    decidedAt: z.string().datetime().optional(),
+    reviewer: z.string().optional(),
+    comment: z.string().optional(),
+});
+
+export type PlanReview = z.infer<typeof PlanReviewSchema>;
+
+// =============================================================================
+// REVIEWER INPUT
+// =============================================================================
+
+/**
+ * Changes to a pending plan. Omitted parts are kept as planned.
+ */
+export const PlanEditSchema = z.object({
+    testSpecs: z.array(TestSpecificationSchema).min(1).optional(),
+    repoAnalysis: RepoTestAnalysisSchema.optional(),
+});
+
+export type PlanEdit = z.infer<typeof PlanEditSchema>;
+
+/**
+ * Body of the approve/reject routes; an approval may carry last edits.
+ */
+export const PlanDecisionSchema = PlanEditSchema.extend({
+    reviewer: z.string().optional(),
+    comment: z.string().optional(),
+});
+
+export type PlanDecision = z.infer<typeof PlanDecisionSchema>;
@@ -0,0 +1,43 @@
+/**
+ * Pull request template types.
+ * Markdown templates with {{placeholder}} tokens, rendered from the run's measured results.
+ */
+import z from "zod";
+import { FileCoverageSchema } from "./coverage";
+
+// =============================================================================
+// TEMPLATE
+// =============================================================================
+
+/**
+ * Title and body templates. Unknown placeholders render as empty strings.
+ */
+export const PrTemplateSchema = z.object({
+    title: z.string().min(1).describe("PR title template, e.g. 'Add unit tests for {{testFileCount}} file(s)'"),
+    body: z.string().min(1).describe("Markdown body template"),
+});
+
+export type PrTemplate = z.infer<typeof PrTemplateSchema>;
+
+/**
+ * Per-project override accepted by the API; unset fields fall back to the default template.
+ */
+export const PrTemplateOverrideSchema = PrTemplateSchema.partial();
+
+export type PrTemplateOverride = z.infer<typeof PrTemplateOverrideSchema>;
+
+// =============================================================================
+// COVERAGE
+// =============================================================================
+
+/**
+ * Line coverage (0..1) without and with the generated tests, from the coverage phase.
+ */
+export const PrCoverageSchema = z.object({
+    before: z.number().optional().describe("Coverage with the generated test files excluded"),
+    after: z.number().describe("Coverage including the generated test files"),
+    method: z.string().optional().describe("How coverage was obtained, e.g. 'json' or 'algorithmic'"),
+    files: z.array(FileCoverageSchema).optional().describe("Coverage of the tested source files, when the runner reports it per file"),
+});
+
+export type PrCoverage = z.infer<typeof PrCoverageSchema>;
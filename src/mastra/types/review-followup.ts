@@ -0,0 +1,59 @@
+/**
+ * Review follow-up types.
+ * Reviewer comments on a bot PR, mapped to the test file and lines they address, and what a
+ * follow-up run did with them.
+ */
+import z from "zod";
+
+// =============================================================================
+// REVIEW FEEDBACK
+// =============================================================================
+
+/**
+ * One top-level review comment on a test file of the bot PR.
+ */
+export const ReviewFeedbackSchema = z.object({
+    commentId: z.number().describe("Review comment id; replies go to this thread"),
+    testFile: z.string().describe("Test file path relative to the repository root"),
+    startLine: z.number().optional().describe("First commented line for multi-line comments"),
+    line: z.number().optional().describe("Commented line in the PR head; absent when the comment is outdated"),
+    body: z.string(),
+    diffHunk: z.string().optional().describe("Diff context GitHub shows above the comment"),
+    author: z.string(),
+});
+
+export type ReviewFeedback = z.infer<typeof ReviewFeedbackSchema>;
+
+/**
+ * Bot PR and the feedback a follow-up run addresses.
+ */
+export const ReviewFollowUpSchema = z.object({
+    owner: z.string(),
+    repo: z.string(),
+    prNumber: z.number(),
+    branchName: z.string().describe("PR head branch the follow-up commit is pushed to"),
+    reviewId: z.number().optional(),
+    feedback: z.array(ReviewFeedbackSchema),
+});
+
+export type ReviewFollowUp = z.infer<typeof ReviewFollowUpSchema>;
+
+// =============================================================================
+// REVISIONS
+// =============================================================================
+
+/**
+ * Outcome of revising one test file, with the measured run of the revised file.
+ */
+export const TestRevisionSchema = z.object({
+    testFile: z.string(),
+    commentIds: z.array(z.number()),
+    success: z.boolean().describe("Whether the agent revised the file"),
+    summary: z.string().optional().describe("What the agent changed, quoted in the thread reply"),
+    passed: z.number().optional(),
+    failed: z.number().optional(),
+    suiteError: z.string().optional(),
+    error: z.string().optional(),
+});
+
+export type TestRevision = z.infer<typeof TestRevisionSchema>;
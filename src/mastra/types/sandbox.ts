@@ -0,0 +1,62 @@
+/**
+ * Sandbox policy types and schemas for run containers.
+ */
+import z from "zod";
+
+// =============================================================================
+// NETWORK POLICY
+// =============================================================================
+
+/**
+ * Network access for a container phase.
+ * - full: default bridge network
+ * - registries: egress only through the allowlisting proxy (package registries + git host)
+ * - none: no network at all
+ */
+export const SandboxNetworkModeSchema = z.enum(["full", "registries", "none"]);
+
+export type SandboxNetworkMode = z.infer<typeof SandboxNetworkModeSchema>;
+
+/**
+ * Phase a command runs in. Install covers dependency installs and git remote operations;
+ * test covers everything else that may execute repository code.
+ */
+export const SandboxPhaseSchema = z.enum(["install", "test"]);
+
+export type SandboxPhase = z.infer<typeof SandboxPhaseSchema>;
+
+// =============================================================================
+// SANDBOX POLICY
+// =============================================================================
+
+/**
+ * Docker size value ("512m", "4g", "1.5g"). The value ends up on the `docker run` command line.
+ */
+export const DockerSizeSchema = z.string().regex(/^\d+(\.\d+)?[bkmg]?$/i, "Expected a size such as '512m' or '4g'");
+
+/**
+ * Resource and network limits applied to every container of a run.
+ */
+export const SandboxPolicySchema = z.object({
+    memory: DockerSizeSchema.describe("Docker memory limit (e.g. '4g')"),
+    cpus: z.number().positive().describe("CPU quota in cores"),
+    pidsLimit: z.number().int().positive().describe("Maximum number of processes in the container"),
+    diskSize: DockerSizeSchema.nullable().describe("Writable layer size limit (e.g. '10g'); requires a storage driver with quota support"),
+    readOnlyRoot: z.boolean().describe("Mount the root filesystem read-only; only the workspace, /tmp and /root stay writable"),
+    tmpSize: DockerSizeSchema.describe("Size of the /tmp and /root tmpfs mounts when the root is read-only"),
+    network: z.object({
+        install: SandboxNetworkModeSchema.describe("Network during installs and git remote operations"),
+        test: SandboxNetworkModeSchema.describe("Network while executing tests and other repository code"),
+    }),
+});
+
+export type SandboxPolicy = z.infer<typeof SandboxPolicySchema>;
+
+/**
+ * Per-project overrides; any omitted field falls back to the default policy.
+ */
+export const SandboxPolicyOverrideSchema = SandboxPolicySchema.extend({
+    network: SandboxPolicySchema.shape.network.partial(),
+}).partial();
+
+export type SandboxPolicyOverride = z.infer<typeof SandboxPolicyOverrideSchema>;
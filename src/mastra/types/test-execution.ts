@@ -0,0 +1,101 @@
+/**
+ * Test execution types and schemas.
+ * Measured results of running generated test files inside the run container.
+ */
+import z from "zod";
+
+// =============================================================================
+// TEST CASES
+// =============================================================================
+
+/**
+ * Outcome of a single test case as reported by the test runner.
+ */
+export const TestCaseStatusSchema = z.enum(["passed", "failed", "skipped"]);
+
+export type TestCaseStatus = z.infer<typeof TestCaseStatusSchema>;
+
+/**
+ * One test case from the runner's structured report.
+ */
+export const TestCaseResultSchema = z.object({
+    name: z.string().describe("Full test name including describe blocks"),
+    status: TestCaseStatusSchema,
+    errorMessage: z.string().optional().describe("First line(s) of the failure message"),
+    stack: z.array(z.string()).optional().describe("Top stack frames of the failure"),
+});
+
+export type TestCaseResult = z.infer<typeof TestCaseResultSchema>;
+
+// =============================================================================
+// TEST FILES & RUN REPORT
+// =============================================================================
+
+/**
+ * Per-file execution result. A suite error means the file did not load (syntax, import or
+ * mock setup errors), so none of its cases ran.
+ */
+export const TestFileRunSchema = z.object({
+    testFile: z.string().describe("Test file path relative to the repository root"),
+    passed: z.number(),
+    failed: z.number(),
+    skipped: z.number(),
+    suiteError: z.string().optional().describe("Error that prevented the file from running"),
+    cases: z.array(TestCaseResultSchema),
+});
+
+export type TestFileRun = z.infer<typeof TestFileRunSchema>;
+
+/**
+ * Result of one deterministic test run over the generated files.
+ */
+export const TestRunReportSchema = z.object({
+    runner: z.string().describe("Runner used, e.g. 'vitest'"),
+    exitCode: z.number().describe("Exit code of the runner (124 on timeout)"),
+    durationMs: z.number(),
+    files: z.array(TestFileRunSchema),
+    outputTail: z.string().optional().describe("Tail of the runner output when no structured report was produced"),
+});
+
+export type TestRunReport = z.infer<typeof TestRunReportSchema>;
+
+// =============================================================================
+// TEST FRAMEWORKS
+// =============================================================================
+
+/**
+ * Test frameworks the pipeline can plan, generate, run and measure coverage for.
+ */
+export const TestFrameworkSchema = z.enum(["vitest", "jest", "pytest", "gotest", "junit", "cargo"]);
+
+export type TestFramework = z.infer<typeof TestFrameworkSchema>;
+
+/**
+ * How Jest compiles TypeScript test files.
+ */
+export const JestTransformSchema = z.enum(["ts-jest", "babel-jest", "@swc/jest"]);
+
+export type JestTransform = z.infer<typeof JestTransformSchema>;
+
+/**
+ * Build tool running JUnit tests.
+ */
+export const JvmBuildToolSchema = z.enum(["maven", "gradle"]);
+
+export type JvmBuildTool = z.infer<typeof JvmBuildToolSchema>;
+
+/**
+ * Test framework of the repository under test, read from its runner config and manifests
+ * (package.json, pyproject.toml/setup.cfg, go.mod, pom.xml/build.gradle, Cargo.toml).
+ */
+export const DetectedTestFrameworkSchema = z.object({
+    framework: TestFrameworkSchema,
+    configFile: z.string().optional().describe("Runner config relative to the repository root ('package.json' for an inline jest key)"),
+    transform: JestTransformSchema.optional().describe("Jest only: how TypeScript is compiled. ts-jest without a config file is applied as a preset"),
+    packages: z.array(z.string()).optional().describe("pytest only: package directories under test, relative to the repository root (e.g. 'src/mypkg')"),
+    module: z.string().optional().describe("gotest only: module path declared in go.mod"),
+    buildTool: JvmBuildToolSchema.optional().describe("junit only: Maven or Gradle (the wrapper is used when the repository has one)"),
+    libraries: z.array(z.string()).optional().describe("junit only: test libraries the build declares (e.g. 'junit-jupiter', 'mockito', 'assertj')"),
+});
+
+export type DetectedTestFramework = z.infer<typeof DetectedTestFrameworkSchema>;
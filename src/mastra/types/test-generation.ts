@@ -3,6 +3,7 @@
  * Used by the unit test generation workflow.
  */
 import z from "zod";
+import { TestRunReportSchema } from "./test-execution";
 
 // =============================================================================
 // REPOSITORY TEST ANALYSIS
@@ -16,6 +17,7 @@ export const SourceModuleSchema = z.object({
     sourceFiles: z.array(z.string()).describe("Source files in this module"),
     priority: z.enum(["high", "medium", "low"]).describe("Priority level for testing"),
     language: z.string().describe("Programming language"),
+    priorityReason: z.string().optional().describe("Planner's reasoning for the module's priority"),
 });
 
 export type SourceModule = z.infer<typeof SourceModuleSchema>;
@@ -28,6 +30,7 @@ export const RepoTestAnalysisSchema = z.object({
     testingFramework: z.string().describe("Testing framework to use (e.g., jest, vitest)"),
     testDirectory: z.string().describe("Directory where tests should be placed"),
     totalFiles: z.number().describe("Total number of files to test"),
+    selectionReason: z.string().optional().describe("Planner's reasoning for the selected files"),
 });
 
 export type RepoTestAnalysis = z.infer<typeof RepoTestAnalysisSchema>;
@@ -56,6 +59,29 @@ export const TestSpecificationSchema = z.object({
 
 export type TestSpecification = z.infer<typeof TestSpecificationSchema>;
 
+// =============================================================================
+// GENERATION BUDGET
+// =============================================================================
+
+/**
+ * Limits for one test generation run. Specs beyond the budget are reported as skipped.
+ */
+export const GenerationBudgetSchema = z.object({
+    maxFiles: z.number().int().positive().describe("Maximum number of test files to generate"),
+    maxTokens: z.number().int().positive().describe("Maximum agent tokens across all files"),
+    maxWallTimeMs: z.number().int().positive().describe("Maximum wall time for the generation phase"),
+    concurrency: z.number().int().positive().max(16).describe("Coder agents generating test files in parallel"),
+});
+
+export type GenerationBudget = z.infer<typeof GenerationBudgetSchema>;
+
+/**
+ * Per-project overrides; any omitted field falls back to the default budget.
+ */
+export const GenerationBudgetOverrideSchema = GenerationBudgetSchema.partial();
+
+export type GenerationBudgetOverride = z.infer<typeof GenerationBudgetOverrideSchema>;
+
 // =============================================================================
 // CODING TASK
 // =============================================================================
@@ -89,6 +115,7 @@ export const TestFileResultSchema = z.object({
     testCasesCount: z.number().describe("Number of test cases generated"),
     success: z.boolean().describe("Whether generation was successful"),
     error: z.string().optional().describe("Error message if generation failed"),
+    skipped: z.boolean().optional().describe("True when the file was not attempted because the generation budget ran out"),
 });
 
 export type TestFileResult = z.infer<typeof TestFileResultSchema>;
@@ -99,7 +126,9 @@ export type TestFileResult = z.infer<typeof TestFileResultSchema>;
 export const TestQualitySchema = z.object({
     syntaxValid: z.boolean().describe("Whether generated tests have valid syntax"),
     followsBestPractices: z.boolean().describe("Whether tests follow best practices"),
-    coverageScore: z.number().describe("Estimated test coverage score (0-100)"),
+    coverageScore: z.number().optional().describe("Line coverage (0-100), only when measured by a coverage run"),
+    passRate: z.number().optional().describe("Share of executed test cases that passed (0-1), measured by running the tests"),
+    allPassing: z.boolean().optional().describe("Whether every executed test file passed, measured by running the tests"),
 });
 
 export type TestQuality = z.infer<typeof TestQualitySchema>;
@@ -118,6 +147,17 @@ export const TestGenerationSummarySchema = z.object({
 
 export type TestGenerationSummary = z.infer<typeof TestGenerationSummarySchema>;
 
+/**
+ * Budget consumption of a generation run.
+ */
+export const GenerationBudgetUsageSchema = z.object({
+    tokensUsed: z.number().describe("Agent tokens consumed across all files"),
+    elapsedMs: z.number().describe("Wall time spent generating"),
+    exhaustedBy: z.enum(["files", "tokens", "time"]).nullable().describe("Limit that stopped generation early, if any"),
+});
+
+export type GenerationBudgetUsage = z.infer<typeof GenerationBudgetUsageSchema>;
+
 /**
  * Comprehensive test generation result.
  */
@@ -125,6 +165,8 @@ export const TestGenerationResultSchema = z.object({
     testFiles: z.array(TestFileResultSchema).describe("Results for each test file"),
     summary: TestGenerationSummarySchema.describe("Overall generation summary"),
     quality: TestQualitySchema.describe("Quality assessment of generated tests"),
+    budget: GenerationBudgetUsageSchema.optional().describe("Budget consumption, when generation ran under a budget"),
+    execution: TestRunReportSchema.optional().describe("Measured results of running the generated test files"),
 });
 
 export type TestGenerationResult = z.infer<typeof TestGenerationResultSchema>;
@@ -0,0 +1,26 @@
+/**
+ * Webhook subscription types.
+ * Which repository a project follows and which of its GitHub events start runs.
+ */
+import z from "zod";
+
+// =============================================================================
+// SUBSCRIPTIONS
+// =============================================================================
+
+/**
+ * Events that start a pipeline run: pushes to the default branch and opened/updated PRs.
+ */
+export const WebhookEventKindSchema = z.enum(["push", "pull_request"]);
+
+export type WebhookEventKind = z.infer<typeof WebhookEventKindSchema>;
+
+/**
+ * A project's subscription to a GitHub repository's webhook deliveries.
+ */
+export const WebhookSubscriptionSchema = z.object({
+    repository: z.string().regex(/^[^/\s]+\/[^/\s]+$/, "Expected owner/repo").describe("GitHub repository as owner/repo"),
+    events: z.array(WebhookEventKindSchema).min(1).default(["push", "pull_request"]),
+});
+
+export type WebhookSubscription = z.infer<typeof WebhookSubscriptionSchema>;
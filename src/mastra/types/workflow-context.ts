@@ -18,6 +18,11 @@ export const ContextDataSchema = z.object({
     repo: z.string().optional(),
     fullName: z.string().optional(),
     full_name: z.string().optional(),
+    path_with_namespace: z.string().optional(), // GitLab
+
+    // Hosting provider hints for "owner/repo" shorthand (defaults to github.com)
+    provider: z.string().optional(),
+    host: z.string().optional(),
     
     // Branch information
     defaultBranch: z.string().optional(),
@@ -33,10 +38,27 @@ export const ContextDataSchema = z.object({
     clone_url: z.string().optional(),
     ssh_url: z.string().optional(),
     html_url: z.string().optional(),
+    web_url: z.string().optional(), // GitLab
 }).passthrough(); // Allow additional fields from external systems
 
 export type ContextData = z.infer<typeof ContextDataSchema>;
 
+// =============================================================================
+// RUNTIME PROFILE
+// =============================================================================
+
+/**
+ * Language runtime detected in the cloned repository, used to pick the sandbox image.
+ */
+export const RuntimeProfileSchema = z.object({
+    language: z.enum(["node", "python", "go", "java", "rust", "unknown"]).describe("Primary runtime of the repository"),
+    version: z.string().nullable().describe("Runtime version selected for the image (e.g. '20', '3.11', '1.22', '17', '1.82')"),
+    source: z.string().nullable().describe("File the version was read from (e.g. '.nvmrc', 'package.json#engines', 'go.mod', 'pom.xml', 'Cargo.toml')"),
+    image: z.string().describe("Docker image tag the run container was created from"),
+});
+
+export type RuntimeProfile = z.infer<typeof RuntimeProfileSchema>;
+
 // =============================================================================
 // BASE STEP OUTPUT SCHEMAS
 // =============================================================================
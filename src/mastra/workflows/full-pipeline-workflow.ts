@@ -1,8 +1,8 @@
 import { createWorkflow, createStep } from "@mastra/core";
-import { dockerSetupStep, githubCloneStep, postProjectDescriptionStep, postProjectStackStep, dockerSaveContextStep } from "./test/01-docker-setup-workflow";
+import { dockerSetupStep, githubCloneStep, provisionRuntimeStep, postProjectDescriptionStep, postProjectStackStep, dockerSaveContextStep } from "./test/01-docker-setup-workflow";
 import { contextGatheringStartStep, analyzeRepositoryStep, analyzeCodebaseStep, analyzeBuildDeploymentStep, synthesizeContextStep, saveContextStep } from "./test/02-context-gathering-workflow";
-import { checkSavedPlanStep, loadContextAndPlanStep, generateTestCodeStep, finalizeTestsStep } from "./test/03-test-generation-workflow";
-import { prepareCommitStep, createPullRequestStep, postPrUrlStep } from "./test/04-github-pr-workflow";
+import { checkSavedPlanStep, loadContextAndPlanStep, planApprovalStep, generateTestCodeStep, finalizeTestsStep } from "./test/03-test-generation-workflow";
+import { exportPatchStep, prepareCommitStep, createPullRequestStep, postPrUrlStep, watchPrChecksStep } from "./test/04-github-pr-workflow";
 import { runCoverageStep, postCoverageStep } from "./test/05-coverage-analysis-workflow";
 import { 
     PipelineInputSchema,
@@ -24,6 +24,7 @@ export const fullPipelineWorkflow = createWorkflow({
     // Phase 1: Docker setup
     .then(dockerSetupStep)
     .then(githubCloneStep)
+    .then(provisionRuntimeStep)
     .parallel([postProjectDescriptionStep, postProjectStackStep])
     .then(dockerSaveContextStep)
     // Phase 2: Context gathering
@@ -36,15 +37,18 @@ export const fullPipelineWorkflow = createWorkflow({
     // @ts-expect-error - Mastra schema identity mismatch: checkSavedPlanStep expects minimal input but receives full saveContextStep output
     .then(checkSavedPlanStep)
     .then(loadContextAndPlanStep)
+    .then(planApprovalStep)
     .then(generateTestCodeStep)
     .then(finalizeTestsStep)
-    // Phase 4: GitHub PR
-    // @ts-expect-error - Mastra schema identity mismatch: prepareCommitStep expects different fields than finalizeTestsStep output
+    // Phase 4: GitHub PR (dry runs export a patch and skip the publishing steps)
+    // @ts-expect-error - Mastra schema identity mismatch: exportPatchStep expects different fields than finalizeTestsStep output
+    .then(exportPatchStep)
     .then(prepareCommitStep)
     .then(createPullRequestStep)
     .then(postPrUrlStep)
+    .then(watchPrChecksStep)
     // Phase 5: Coverage
-    // @ts-expect-error - Mastra schema identity mismatch: runCoverageStep expects different fields than postPrUrlStep output
+    // @ts-expect-error - Mastra schema identity mismatch: runCoverageStep expects different fields than watchPrChecksStep output
     .then(runCoverageStep)
     .then(postCoverageStep)
     // Final: Normalize output to pipeline schema
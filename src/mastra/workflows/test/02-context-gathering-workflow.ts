@@ -7,6 +7,11 @@ import { writeFileSync, unlinkSync, mkdtempSync } from "fs";
 import path from "path";
 import os from "os";
 import { notifyStepStatus } from "../../tools/alert-notifier";
+import { getRunAbortSignal } from "../../tools/run-control";
+import { getRunDiffScope } from "../../tools/diff-scope";
+import { getProjectContext, rememberProjectContext, type SavedProjectContext } from "../../tools/project-context";
+import { findRepoPath } from "../../tools/test-runner";
+import { describeTestFramework, detectTestFramework, parseTestFramework } from "../../tools/test-frameworks";
 import {
     getErrorMessage,
     extractJsonFromText,
@@ -238,6 +243,7 @@ async function callContextAgentForAnalysis<T>(
     const result = await agent.generate(prompt, { 
         maxSteps, 
         maxRetries: 3,
+        abortSignal: getRunAbortSignal(runId),
     });
     const duration = Date.now() - startTime;
     
@@ -301,6 +307,13 @@ async function callContextAgentForAnalysis<T>(
     }
 }
 
+/**
+ * Context saved by an earlier run of the project, when this run is diff-scoped and can reuse it.
+ */
+function getReusableContext(runId: string | undefined, projectId: string): SavedProjectContext | undefined {
+    return getRunDiffScope(runId) ? getProjectContext(projectId) : undefined;
+}
+
 // Retry wrapper with alerts
 async function withRetryAndAlerts<T>(options: {
     stepId: string;
@@ -367,6 +380,18 @@ export const analyzeRepositoryStep = createStep({
         const { containerId } = inputData;
         const repoPath = inputData.repoPath || '';
         const logger = ALERTS_ONLY ? null : mastra?.getLogger() as Logger | undefined;
+        const reused = getReusableContext(runId, inputData.projectId);
+        if (reused) {
+            await notifyStepStatus({
+                stepId: "analyzeRepositoryStep",
+                status: "completed",
+                runId,
+                containerId,
+                title: "Analyze repository skipped",
+                subtitle: `Incremental run: reusing context saved ${reused.savedAt}`,
+            });
+            return { containerId, repository: reused.repoContext.repository, projectId: inputData.projectId };
+        }
         await notifyStepStatus({
             stepId: "analyzeRepositoryStep",
             status: "starting",
@@ -533,6 +558,18 @@ export const analyzeCodebaseStep = createStep({
         const { containerId } = inputData;
         const repoPath = inputData.repoPath || '';
         const logger = ALERTS_ONLY ? null : mastra?.getLogger() as Logger | undefined;
+        const reused = getReusableContext(runId, inputData.projectId);
+        if (reused) {
+            await notifyStepStatus({
+                stepId: "analyzeCodebaseStep",
+                status: "completed",
+                runId,
+                containerId,
+                title: "Analyze codebase skipped",
+                subtitle: `Incremental run: reusing context saved ${reused.savedAt}`,
+            });
+            return { containerId, codebase: reused.repoContext.codebase, projectId: inputData.projectId };
+        }
         await notifyStepStatus({
             stepId: "analyzeCodebaseStep",
             status: "starting",
@@ -703,6 +740,18 @@ export const analyzeBuildDeploymentStep = createStep({
         const { containerId } = inputData;
         const repoPath = inputData.repoPath || '';
         const logger = ALERTS_ONLY ? null : mastra?.getLogger() as Logger | undefined;
+        const reused = getReusableContext(runId, inputData.projectId);
+        if (reused) {
+            await notifyStepStatus({
+                stepId: "analyzeBuildDeploymentStep",
+                status: "completed",
+                runId,
+                containerId,
+                title: "Analyze build & deployment skipped",
+                subtitle: `Incremental run: reusing context saved ${reused.savedAt}`,
+            });
+            return { containerId, buildDeploy: reused.repoContext.buildDeploy, projectId: inputData.projectId };
+        }
         await notifyStepStatus({
             stepId: "analyzeBuildDeploymentStep",
             status: "starting",
@@ -775,6 +824,13 @@ INSTANT JSON:
                 titleOnRetry: "Analyze build & deployment retry",
                 attempt: () => callContextAgentForAnalysis(prompt, BuildAndDeploymentSchema, 4, runId, logger),
             });
+
+            // The scan only lists files; the runner config and package.json decide the test framework
+            const detectedFramework = await detectTestFramework(containerId, repoPath || await findRepoPath(containerId) || "/app");
+            result.testing.frameworks = [
+                detectedFramework.framework,
+                ...result.testing.frameworks.filter(name => parseTestFramework(name) !== detectedFramework.framework),
+            ];
             
             logger?.info?.("✅ Build system scan completed rapidly", {
                 step: "3/6",
@@ -783,6 +839,7 @@ INSTANT JSON:
                 buildSystemType: result.buildSystem.type,
                 packageManagers: result.packageManagement.managers,
                 testFrameworks: result.testing.frameworks,
+                detectedTestFramework: describeTestFramework(detectedFramework),
                 cicdProviders: result.deployment.cicd,
                 buildCommandsCount: result.buildSystem.buildCommands.length,
                 buildAttempts: result.buildSystem.buildAttempts.length,
@@ -883,7 +940,20 @@ export const synthesizeContextStep = createStep({
         const codebase = inputData["analyzeCodebaseStep"].codebase;
         const buildDeploy = inputData["analyzeBuildDeploymentStep"].buildDeploy;
         const containerId = inputData["analyzeRepositoryStep"].containerId;
+        const projectId = inputData["analyzeRepositoryStep"].projectId;
         const logger = ALERTS_ONLY ? null : mastra?.getLogger() as Logger | undefined;
+        const reused = getReusableContext(runId, projectId);
+        if (reused) {
+            await notifyStepStatus({
+                stepId: "synthesizeContextStep",
+                status: "completed",
+                runId,
+                containerId,
+                title: "Synthesize context skipped",
+                subtitle: `Incremental run: reusing context saved ${reused.savedAt}`,
+            });
+            return { ...reused.repoContext, containerId, projectId };
+        }
         await notifyStepStatus({
             stepId: "synthesizeContextStep",
             status: "starting",
@@ -998,7 +1068,7 @@ Return strictly JSON matching this schema:
                 toolCallCount: cliToolMetrics.callCount,
             });
 
-            return { ...result, containerId, projectId: inputData["analyzeRepositoryStep"].projectId };
+            return { ...result, containerId, projectId };
         } catch (error) {
             logger?.error?.("❌ Context synthesis failed", {
                 step: "4/6",
@@ -1084,6 +1154,8 @@ export const saveContextStep = createStep({
 
         const { containerId, projectId, ...repoContextData } = inputData;
         const parsed = RepoContextSchema.parse(repoContextData);
+        // Later incremental runs of the project start from this context
+        rememberProjectContext(projectId, parsed);
 
         // Enhanced context specifically for unit testing
         const unitTestContext = {
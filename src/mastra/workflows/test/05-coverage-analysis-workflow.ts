@@ -2,11 +2,19 @@ import { createStep, createWorkflow } from "@mastra/core";
 import z from "zod";
 import { notifyStepStatus } from "../../tools/alert-notifier";
 import { cliToolMetrics } from "../../tools/cli-tool";
+import { getRunAbortSignal } from "../../tools/run-control";
+import { getGitProvider } from "../../tools/git-providers";
+import { getRunGitToken, redactSecrets } from "../../tools/run-credentials";
+import { forgetPublishedPr, getProjectPrTemplate, getPublishedPr, renderPrTemplate } from "../../tools/pr-template";
+import { getRunPatch, setRunPatchCoverage } from "../../tools/run-patches";
+import { findRepoPath, measureCoverage } from "../../tools/test-runner";
+import { detectTestFramework, describeTestFramework, getRunTestFramework, getTestFrameworkProfile } from "../../tools/test-frameworks";
 import { mastra } from "../..";
 import { 
     getErrorMessage,
     extractJsonFromText,
     CoverageStatsSchema,
+    FileCoverageSchema,
 } from "../../types";
 
 const ALERTS_ONLY = (process.env.ALERTS_ONLY === 'true') || (process.env.LOG_MODE === 'alerts_only') || (process.env.MASTRA_LOG_MODE === 'alerts_only');
@@ -38,12 +46,14 @@ const CoverageOutputSchema = z.object({
     containerId: z.string(),
     projectId: z.string(),
     coverage: z.number(), // 0..1
+    baselineCoverage: z.number().optional(), // 0..1, with the generated test files excluded
     repoPath: z.string(),
     language: z.string(),
     framework: z.string(),
     method: z.string(), // 'json' | 'xml' | 'stdout' | 'algorithmic'
     stats: CoverageStatsSchema,
     files: z.number(),
+    fileCoverage: z.array(FileCoverageSchema).optional(), // tested source files, when the runner reports per-file coverage
     prUrl: z.string().optional(),
     contextPath: z.string().optional(),
     result: z.string().optional(),
@@ -61,6 +71,7 @@ const CoverageAgentResponseSchema = z.object({
     language: z.string().default("TypeScript"),
     framework: z.string().default("Vitest"),
     coverage: z.number(),
+    baselineCoverage: z.number().optional(),
     method: z.string(),
     stats: CoverageStatsSchema.optional(),
     files: z.number(),
@@ -70,7 +81,7 @@ const CoverageAgentResponseSchema = z.object({
 type CoverageAgentResponse = z.infer<typeof CoverageAgentResponseSchema>;
 
 // =============================================================================
-// STEP 1: Run TypeScript + Vitest Coverage
+// STEP 1: Run Coverage with the Repository's Test Framework
 // =============================================================================
 
 export const runCoverageStep = createStep({
@@ -78,25 +89,102 @@ export const runCoverageStep = createStep({
     inputSchema: CoverageInputSchema,
     outputSchema: CoverageOutputSchema,
     execute: async ({ inputData, runId }): Promise<CoverageOutput> => {
+        // The framework the tests were generated for; detected again for standalone coverage runs
+        const framework = getRunTestFramework(runId)
+            ?? await detectTestFramework(inputData.containerId, inputData.repoPath || await findRepoPath(inputData.containerId) || "/app");
+        const profile = getTestFrameworkProfile(framework.framework);
+        const stack = `${profile.language} + ${profile.label}`;
+        const runnerPackages = profile.packages(framework);
+
         await notifyStepStatus({
             stepId: "runCoverageStep",
             status: "starting",
             runId,
             containerId: inputData.containerId,
-            title: "Run TypeScript + Vitest coverage",
-            subtitle: "Using intelligent agent to validate and calculate coverage",
+            title: `Run ${stack} coverage`,
+            subtitle: profile.coverageReport
+                ? `Reading the ${profile.label} coverage report (${describeTestFramework(framework)})`
+                : `Using intelligent agent to validate and calculate coverage (${describeTestFramework(framework)})`,
         });
 
         const logger = ALERTS_ONLY ? null : mastra.getLogger() as Logger | undefined;
         const agent = mastra.getAgent("testCoverageAgent");
         if (!agent) throw new Error("testCoverageAgent not registered");
 
-        const prompt = `CRITICAL: Analyze this TypeScript + Vitest project for coverage.
+        // With the PR's (or the dry run's patch's) test files known, a second run without them gives
+        // the coverage before this change
+        const generatedFiles: { testFile: string; sourceFile: string }[] = getPublishedPr(runId)?.data.testGeneration?.testFiles
+            .filter(file => file.success)
+            ?? getRunPatch(runId)?.manifest.files
+            ?? [];
+        const generatedTestFiles = generatedFiles.map(file => file.testFile);
+        const isTestedSource = (file: string) => generatedFiles.some(({ sourceFile }) =>
+            sourceFile === file || sourceFile.endsWith(`/${file}`) || file.endsWith(`/${sourceFile}`)
+        );
+
+        // Frameworks with a report the pipeline reads itself are measured directly; the agent is the fallback
+        if (profile.coverageReport) {
+            const repoPath = inputData.repoPath || await findRepoPath(inputData.containerId) || "/app";
+            const measured = await measureCoverage(inputData.containerId, repoPath, framework);
+            if (measured) {
+                const baseline = generatedTestFiles.length > 0
+                    ? await measureCoverage(inputData.containerId, repoPath, framework, generatedTestFiles)
+                    : null;
+                const baselineCoverage = baseline?.coverage;
+                const fileCoverage = measured.fileCoverage?.filter(file => isTestedSource(file.file));
+
+                logger?.info?.(`${stack} coverage measured`, { coverage: measured.coverage, baselineCoverage, files: measured.files, repoPath });
+
+                await notifyStepStatus({
+                    stepId: "runCoverageStep",
+                    status: "completed",
+                    runId,
+                    containerId: inputData.containerId,
+                    title: `${stack} coverage calculated`,
+                    subtitle: `${(measured.coverage * 100).toFixed(2)}% via json (${measured.files} files)`,
+                    toolCallCount: cliToolMetrics.callCount,
+                    metadata: {
+                        coverage: { coverage: measured.coverage, baselineCoverage, method: "json", files: measured.files, stats: measured.stats },
+                    },
+                });
+
+                return {
+                    containerId: inputData.containerId,
+                    projectId: inputData.projectId,
+                    coverage: measured.coverage,
+                    baselineCoverage,
+                    repoPath,
+                    language: profile.language,
+                    framework: profile.label,
+                    method: "json",
+                    stats: measured.stats,
+                    files: measured.files,
+                    fileCoverage,
+                    prUrl: inputData.prUrl,
+                    contextPath: inputData.contextPath,
+                    result: inputData.result,
+                    success: true,
+                    toolCallCount: inputData.toolCallCount,
+                };
+            }
+            logger?.warn?.(`${stack} coverage report missing; falling back to the coverage agent`, { repoPath });
+        }
+
+        const baselineInstructions = generatedTestFiles.length > 0
+            ? `
+4b. BASELINE (only when step 4 ran with Node.js): measure coverage WITHOUT this PR's generated test files:
+   - Run: cd DISCOVERED_REPO_PATH && ${profile.coverageCommand(generatedTestFiles, framework)}
+   - Report its line coverage (0..1) as "baselineCoverage"; omit the field if this run fails
+`
+            : '\n';
+
+        const prompt = `CRITICAL: Analyze this ${stack} project for coverage.
 
 Container ID: ${inputData.containerId}
 Repo Path Hint: ${inputData.repoPath || 'Not provided - please discover'}
 
-CRITICAL: Node.js may NOT be available in the container. Handle gracefully!
+The container is provisioned from a Node.js runtime image for Node projects, so tests should be executed.
+Only fall back to estimation if Node.js is genuinely missing (e.g. runtime provisioning was skipped).
 
 YOUR MISSION:
 1. DISCOVER REPOSITORY PATH DYNAMICALLY (works for ANY repository):
@@ -108,12 +196,12 @@ YOUR MISSION:
 
 2. Check Node.js availability FIRST:
    - Run: docker exec ${inputData.containerId} which node
+   - If found → Use standard ${profile.label} approach (expected)
    - If "command not found" → Use ALGORITHMIC approach
-   - If found → Use standard Vitest approach
 
-3. IF NODE.JS MISSING (likely scenario):
+3. IF NODE.JS MISSING (fallback only):
    - Read package.json: docker exec ${inputData.containerId} cat DISCOVERED_REPO_PATH/package.json
-   - Manually parse JSON to check for "typescript" and "vitest" in dependencies/devDependencies
+   - Manually parse JSON to check for "typescript" and "${profile.id}" in dependencies/devDependencies
    - Count ALL TypeScript files: docker exec ${inputData.containerId} find DISCOVERED_REPO_PATH -name "*.ts" -o -name "*.tsx" -not -path "*/node_modules/*" -not -path "*/dist/*" -not -path "*/build/*" | wc -l
    - Count test files ANYWHERE: docker exec ${inputData.containerId} find DISCOVERED_REPO_PATH \\( -name "*.test.ts" -o -name "*.spec.ts" -o -name "*.test.tsx" -o -name "*.spec.tsx" \\) -not -path "*/node_modules/*" | wc -l
    - Calculate: source_files = total_files - test_files, coverage = min(1.0, test_count / max(source_count, 1) * 2.5)
@@ -121,17 +209,19 @@ YOUR MISSION:
 
 4. IF NODE.JS AVAILABLE:
    - Install: docker exec ${inputData.containerId} bash -c "cd DISCOVERED_REPO_PATH && npm ci --no-audit --no-fund"
-   - Run: docker exec ${inputData.containerId} bash -c "cd DISCOVERED_REPO_PATH && npx vitest run --coverage"
-
+   - If node_modules lacks any of ${runnerPackages.join(', ')}: cd DISCOVERED_REPO_PATH && npm install --no-save ${runnerPackages.join(' ')}
+   - Run: cd DISCOVERED_REPO_PATH && ${profile.coverageCommand([], framework)}
+${baselineInstructions}
 5. Return ONLY JSON - no explanatory text or markdown!
 
 REQUIRED JSON OUTPUT:
 {
   "isValid": boolean,
   "repoPath": string, 
-  "language": "TypeScript",
-  "framework": "Vitest",
-  "coverage": number,
+  "language": "${profile.language}",
+  "framework": "${profile.label}",
+  "coverage": number,${generatedTestFiles.length > 0 ? `
+  "baselineCoverage": number,` : ''}
   "method": string,
   "stats": {
     "statements": {"total": number, "covered": number, "pct": number},
@@ -145,9 +235,9 @@ REQUIRED JSON OUTPUT:
 
 BE SPECIFIC: Include exact commands you tried and their outputs in the reason field if anything fails.
 
-CRITICAL: This solution must work for ANY TypeScript + Vitest repository in any container setup - never hardcode paths or repository names!`;
+CRITICAL: This solution must work for ANY ${stack} repository in any container setup - never hardcode paths or repository names!`;
 
-        const result = await agent.generate(prompt, { maxSteps: 100, maxRetries: 2 });
+        const result = await agent.generate(prompt, { maxSteps: 100, maxRetries: 2, abortSignal: getRunAbortSignal(runId) });
         const resultObj = result as { text?: string };
         const text = String(resultObj?.text || "{}");
         
@@ -185,12 +275,15 @@ CRITICAL: This solution must work for ANY TypeScript + Vitest repository in any
                 toolCallCount: cliToolMetrics.callCount,
             });
 
-            throw new Error(`Invalid project for TypeScript + Vitest coverage: ${parsed.reason}`);
+            throw new Error(`Invalid project for ${stack} coverage: ${parsed.reason}`);
         }
 
         const coverage = Math.max(0, Math.min(1, Number(parsed.coverage) || 0));
+        const baselineCoverage = generatedTestFiles.length > 0 && typeof parsed.baselineCoverage === 'number'
+            ? Math.max(0, Math.min(1, parsed.baselineCoverage))
+            : undefined;
         
-        logger?.info?.("TypeScript + Vitest coverage analysis completed", { 
+        logger?.info?.(`${stack} coverage analysis completed`, { 
             coverage, 
             method: parsed.method, 
             files: parsed.files,
@@ -202,18 +295,22 @@ CRITICAL: This solution must work for ANY TypeScript + Vitest repository in any
             status: "completed",
             runId,
             containerId: inputData.containerId,
-            title: "TypeScript + Vitest coverage calculated",
+            title: `${stack} coverage calculated`,
             subtitle: `${(coverage * 100).toFixed(2)}% via ${parsed.method} (${parsed.files} files)`,
             toolCallCount: cliToolMetrics.callCount,
+            metadata: {
+                coverage: { coverage, baselineCoverage, method: parsed.method, files: parsed.files, stats: parsed.stats },
+            },
         });
 
         return {
             containerId: inputData.containerId,
             projectId: inputData.projectId,
             coverage,
+            baselineCoverage,
             repoPath: parsed.repoPath,
-            language: "TypeScript",
-            framework: "Vitest",
+            language: profile.language,
+            framework: profile.label,
             method: parsed.method,
             stats: parsed.stats || {
                 statements: { total: 0, covered: 0, pct: coverage * 100 },
@@ -248,7 +345,7 @@ export const postCoverageStep = createStep({
             status: "starting",
             runId,
             containerId: inputData.containerId,
-            title: "Post TypeScript + Vitest coverage",
+            title: `Post ${inputData.language} + ${inputData.framework} coverage`,
             subtitle: `${(inputData.coverage * 100).toFixed(2)}% (${inputData.method}) → ${url}`,
         });
 
@@ -271,12 +368,39 @@ export const postCoverageStep = createStep({
             // Best effort - continue even if POST fails
         }
 
+        // Dry runs keep coverage of the patched tree in the patch manifest
+        const prCoverage = { before: inputData.baselineCoverage, after: inputData.coverage, method: inputData.method, files: inputData.fileCoverage };
+        setRunPatchCoverage(runId, prCoverage);
+
+        // The PR was opened before coverage existed; re-render its description with the measured numbers
+        const published = getPublishedPr(runId);
+        if (published) {
+            try {
+                const token = await getRunGitToken(runId);
+                if (token) {
+                    const data = {
+                        ...published.data,
+                        coverage: prCoverage,
+                    };
+                    const { title, body } = renderPrTemplate(getProjectPrTemplate(inputData.projectId), data);
+                    const updated = await getGitProvider(published.ref.provider).updatePullRequest(published.ref, token, published.number, { title, body });
+                    if (!updated.ok) {
+                        console.warn(`⚠️ Failed to add coverage to PR #${published.number}: ${updated.status} ${redactSecrets(updated.text.substring(0, 200))}`);
+                    }
+                }
+            } catch (error) {
+                console.warn('⚠️ Failed to add coverage to the PR description:', redactSecrets(getErrorMessage(error)));
+            } finally {
+                forgetPublishedPr(runId);
+            }
+        }
+
         await notifyStepStatus({
             stepId: "postCoverageStep",
             status: "completed",
             runId,
             containerId: inputData.containerId,
-            title: "TypeScript + Vitest coverage posted",
+            title: `${inputData.language} + ${inputData.framework} coverage posted`,
             subtitle: `${(inputData.coverage * 100).toFixed(2)}% (${inputData.files} files, ${inputData.method} method)`,
             toolCallCount: cliToolMetrics.callCount,
         });
@@ -291,7 +415,7 @@ export const postCoverageStep = createStep({
 
 export const coverageAnalysisWorkflow = createWorkflow({
     id: "coverageAnalysisWorkflow",
-    description: "Calculate TypeScript + Vitest test coverage using algorithms/statistics and POST to backend",
+    description: "Calculate test coverage with the repository's test framework (Vitest, Jest, pytest, go test, JUnit 5 or cargo test) and POST to backend",
     inputSchema: z.object({
         containerId: z.string(),
         projectId: z.string(),
@@ -0,0 +1,361 @@
+import { createStep, createWorkflow } from "@mastra/core";
+import z from "zod";
+import { notifyStepStatus } from "../../tools/alert-notifier";
+import { cliToolMetrics } from "../../tools/cli-tool";
+import { trackChildProcess, getRunAbortSignal, isRunCancelled } from "../../tools/run-control";
+import { runSandboxedCommand } from "../../tools/sandbox-policy";
+import { getGitCredentialExec, getRunGitToken, getRunGitIdentity, redactSecrets } from "../../tools/run-credentials";
+import { getReviewFollowUp, replyToReviewComment } from "../../tools/review-followups";
+import { revertInlineSourceEdits, runTestFiles } from "../../tools/test-runner";
+import { describeTestFrameworkIdioms, detectTestFramework, getTestFrameworkProfile } from "../../tools/test-frameworks";
+import { dockerSetupStep, githubCloneStep, provisionRuntimeStep } from "./01-docker-setup-workflow";
+import { exec } from "child_process";
+import { mastra } from "../..";
+import {
+    getErrorMessage,
+    parseAgentJsonResponse,
+    PipelineInputSchema,
+    ProvisionRuntimeStepOutputSchema,
+    TestRevisionSchema,
+    type DetectedTestFramework,
+    type RepoRef,
+    type ReviewFeedback,
+    type TestRevision,
+} from "../../types";
+
+const ALERTS_ONLY = (process.env.ALERTS_ONLY === 'true') || (process.env.LOG_MODE === 'alerts_only') || (process.env.MASTRA_LOG_MODE === 'alerts_only');
+
+// Logger interface for type safety
+interface Logger {
+    info?: (message: string, meta?: Record<string, unknown>) => void;
+    debug?: (message: string, meta?: Record<string, unknown>) => void;
+    warn?: (message: string, meta?: Record<string, unknown>) => void;
+    error?: (message: string, meta?: Record<string, unknown>) => void;
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+function sh(cmd: string, env?: NodeJS.ProcessEnv): Promise<{ stdout: string; stderr: string }> {
+    return new Promise((resolve, reject) => {
+        const child = exec(cmd, { maxBuffer: 1024 * 1024 * 10, env }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(redactSecrets(stderr || error.message)));
+            } else {
+                resolve({ stdout, stderr });
+            }
+        });
+        trackChildProcess(child, cmd);
+    });
+}
+
+function shellEscape(str: string): string {
+    return "'" + str.replace(/'/g, "'\"'\"'") + "'";
+}
+
+// Pass runId and ref for git remote operations so the run's token is injected for that exec only
+async function dockerExec(containerId: string, repoPath: string, command: string, runId?: string, ref?: RepoRef): Promise<{ stdout: string; stderr: string }> {
+    const gitCredentials = runId ? await getGitCredentialExec(runId, ref) : undefined;
+    const envArgs = gitCredentials ? `${gitCredentials.envArgs} ` : '';
+    try {
+        return await runSandboxedCommand(containerId, command, () => sh(`docker exec ${envArgs}${containerId} bash -lc ${shellEscape(`cd ${shellEscape(repoPath)} && ${command}`)}`, gitCredentials?.env));
+    } catch (error) {
+        throw new Error(`Docker exec failed: ${getErrorMessage(error)}`);
+    }
+}
+
+function splitLines(output: string): string[] {
+    return output.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+}
+
+function formatLines(feedback: ReviewFeedback): string {
+    if (feedback.line === undefined) return "outdated comment, lines no longer in the diff";
+    return feedback.startLine !== undefined && feedback.startLine !== feedback.line
+        ? `lines ${feedback.startLine}-${feedback.line}`
+        : `line ${feedback.line}`;
+}
+
+function buildRevisionPrompt(containerId: string, repoPath: string, testFile: string, feedback: ReviewFeedback[], framework: DetectedTestFramework): string {
+    const profile = getTestFrameworkProfile(framework.framework);
+    return `You have docker_exec. containerId='${containerId}'. Repository at '${repoPath}'.
+
+TASK: A reviewer commented on the generated test file ${testFile} in a pull request. Revise the file to address every comment.
+
+REVIEW COMMENTS:
+${feedback.map((item, index) => `${index + 1}. @${item.author} on ${formatLines(item)}:
+${item.body}${item.diffHunk ? `
+   Diff context:
+${item.diffHunk.split('\n').slice(-8).map(line => `   ${line}`).join('\n')}` : ''}`).join('\n\n')}
+
+RULES:
+- Read the current file first: cd ${repoPath} && cat -n ${testFile}
+- Edit ONLY ${testFile}; do not create, modify or delete any other file${profile.inlineTests ? `
+- The file is also the code under test: change only its tests module, never the code above it` : ''}
+- Keep the tests that were not commented on unless a comment asks to change them
+- Tests must still pass: run them with cd ${repoPath} && ${profile.testCommand([testFile], framework)}
+- Keep to the repository's ${profile.label} idioms:
+${describeTestFrameworkIdioms(framework)}
+- If a comment asks for something that cannot be done in this file, leave it and say so in the summary
+
+RETURN FORMAT (JSON only):
+{"testFile":"${testFile}","success":true,"summary":"<one or two sentences on what changed, per comment>","error":"<only when success is false>"}`;
+}
+
+// =============================================================================
+// SCHEMAS
+// =============================================================================
+
+const ReviseTestsOutputSchema = z.object({
+    containerId: z.string(),
+    repoPath: z.string(),
+    projectId: z.string(),
+    revisions: z.array(TestRevisionSchema),
+    result: z.string().optional(),
+    success: z.boolean().optional(),
+    toolCallCount: z.number().optional(),
+});
+
+type ReviseTestsOutput = z.infer<typeof ReviseTestsOutputSchema>;
+
+const PushFollowUpOutputSchema = z.object({
+    containerId: z.string(),
+    projectId: z.string(),
+    prNumber: z.number(),
+    commitSha: z.string().optional().describe("Follow-up commit pushed to the PR branch; absent when nothing changed"),
+    revisions: z.array(TestRevisionSchema),
+    result: z.string().optional(),
+    success: z.boolean().optional(),
+    toolCallCount: z.number().optional(),
+});
+
+type PushFollowUpOutput = z.infer<typeof PushFollowUpOutputSchema>;
+
+// =============================================================================
+// Step 1: Revise the commented test files
+// =============================================================================
+
+export const reviseTestsFromReviewStep = createStep({
+    id: "reviseTestsFromReviewStep",
+    inputSchema: ProvisionRuntimeStepOutputSchema,
+    outputSchema: ReviseTestsOutputSchema,
+    execute: async ({ inputData, runId }): Promise<ReviseTestsOutput> => {
+        const logger = ALERTS_ONLY ? null : mastra.getLogger() as Logger | undefined;
+        const { containerId, repoPath } = inputData;
+        const followUp = getReviewFollowUp(runId);
+        if (!followUp) {
+            throw new Error(`No review feedback registered for run ${runId}`);
+        }
+
+        const byFile = new Map<string, ReviewFeedback[]>();
+        for (const item of followUp.feedback) {
+            byFile.set(item.testFile, [...(byFile.get(item.testFile) ?? []), item]);
+        }
+
+        await notifyStepStatus({
+            stepId: "reviseTestsFromReviewStep",
+            status: "starting",
+            runId,
+            containerId,
+            projectId: inputData.projectId,
+            title: "Revise tests from review",
+            subtitle: `${followUp.feedback.length} comment(s) on ${byFile.size} file(s) of PR #${followUp.prNumber}`,
+        });
+
+        const agent = mastra.getAgent("testGenerationAgent");
+        if (!agent) throw new Error("testGenerationAgent not registered");
+
+        // One file at a time: every agent works in the same checkout
+        const revisions: TestRevision[] = [];
+        const framework = await detectTestFramework(containerId, repoPath);
+        const inlineTests = !!getTestFrameworkProfile(framework.framework).inlineTests;
+        for (const [testFile, feedback] of byFile) {
+            const commentIds = feedback.map(item => item.commentId);
+            const { stdout: exists } = await dockerExec(containerId, repoPath, `test -f ${shellEscape(testFile)} && echo yes || echo no`);
+            if (exists.trim() !== "yes") {
+                revisions.push({ testFile, commentIds, success: false, error: "The file is no longer on the PR branch" });
+                continue;
+            }
+            try {
+                const response = await agent.generate(buildRevisionPrompt(containerId, repoPath, testFile, feedback, framework), {
+                    maxSteps: 200,
+                    maxRetries: 1,
+                    abortSignal: getRunAbortSignal(runId),
+                });
+                const parsed = parseAgentJsonResponse(String((response as { text?: string })?.text || ''), z.object({
+                    testFile: z.string(),
+                    success: z.boolean(),
+                    summary: z.string().optional(),
+                    error: z.string().optional(),
+                }), { logger: logger ?? undefined, runId });
+                // Inline tests live in the production source; an edit reaching outside the tests module is put back
+                if (parsed.success && inlineTests && (await revertInlineSourceEdits(containerId, repoPath, [testFile])).length > 0) {
+                    logger?.warn?.("Reverted a revision that changed code outside the tests module", { testFile, runId });
+                    revisions.push({ testFile, commentIds, success: false, error: `The edit changed ${testFile} outside its #[cfg(test)] tests module; the file was restored` });
+                    continue;
+                }
+                revisions.push({ testFile, commentIds, success: parsed.success, summary: parsed.summary, error: parsed.error });
+            } catch (error) {
+                if (isRunCancelled(runId)) throw error;
+                logger?.warn?.("Revising test file from review failed", { testFile, error: getErrorMessage(error), runId });
+                revisions.push({ testFile, commentIds, success: false, error: getErrorMessage(error) });
+            }
+        }
+
+        // Measure the revised files; the replies report what actually ran
+        const revised = revisions.filter(revision => revision.success);
+        if (revised.length > 0) {
+            const report = await runTestFiles(containerId, repoPath, revised.map(revision => revision.testFile), framework);
+            for (const fileRun of report.files) {
+                const revision = revised.find(item => item.testFile === fileRun.testFile);
+                if (!revision) continue;
+                revision.passed = fileRun.passed;
+                revision.failed = fileRun.failed;
+                revision.suiteError = fileRun.suiteError;
+            }
+        }
+
+        await notifyStepStatus({
+            stepId: "reviseTestsFromReviewStep",
+            status: "completed",
+            runId,
+            containerId,
+            projectId: inputData.projectId,
+            title: "Tests revised",
+            subtitle: `${revised.length}/${revisions.length} file(s) revised`,
+            toolCallCount: cliToolMetrics.callCount,
+            metadata: { revisions },
+        });
+
+        return {
+            containerId,
+            repoPath,
+            projectId: inputData.projectId,
+            revisions,
+            result: `${revised.length}/${revisions.length} file(s) revised`,
+            success: true,
+            toolCallCount: cliToolMetrics.callCount,
+        };
+    },
+});
+
+// =============================================================================
+// Step 2: Push a follow-up commit and reply on each thread
+// =============================================================================
+
+export const pushReviewFollowUpStep = createStep({
+    id: "pushReviewFollowUpStep",
+    inputSchema: ReviseTestsOutputSchema,
+    outputSchema: PushFollowUpOutputSchema,
+    execute: async ({ inputData, runId }): Promise<PushFollowUpOutput> => {
+        const logger = ALERTS_ONLY ? null : mastra.getLogger() as Logger | undefined;
+        const { containerId, repoPath, revisions } = inputData;
+        const followUp = getReviewFollowUp(runId);
+        if (!followUp) {
+            throw new Error(`No review feedback registered for run ${runId}`);
+        }
+        const ref: RepoRef = { provider: "github", host: "github.com", owner: followUp.owner, repo: followUp.repo };
+        const token = await getRunGitToken(runId);
+        if (!token) {
+            throw new Error("No GitHub token available for this run. Configure the GitHub App or set GITHUB_PAT.");
+        }
+
+        await notifyStepStatus({
+            stepId: "pushReviewFollowUpStep",
+            status: "starting",
+            runId,
+            containerId,
+            projectId: inputData.projectId,
+            title: "Push review follow-up",
+            subtitle: `${followUp.branchName} (PR #${followUp.prNumber})`,
+        });
+
+        // Only the revised test files go into the follow-up commit
+        const identity = await getRunGitIdentity(runId);
+        await dockerExec(containerId, repoPath, `git config user.email ${shellEscape(identity.email)}`);
+        await dockerExec(containerId, repoPath, `git config user.name ${shellEscape(identity.name)}`);
+        await dockerExec(containerId, repoPath, "git reset -q");
+        const revisedFiles = revisions.filter(revision => revision.success).map(revision => revision.testFile);
+        if (revisedFiles.length > 0) {
+            await dockerExec(containerId, repoPath, `git add -- ${revisedFiles.map(shellEscape).join(' ')}`);
+        }
+        const { stdout: staged } = await dockerExec(containerId, repoPath, "git diff --cached --name-only");
+        const changedFiles = splitLines(staged);
+
+        let commitSha: string | undefined;
+        if (changedFiles.length > 0) {
+            const commentCount = revisions.filter(revision => changedFiles.includes(revision.testFile)).reduce((sum, revision) => sum + revision.commentIds.length, 0);
+            await dockerExec(containerId, repoPath, `git commit -m ${shellEscape(`Address ${commentCount} review comment(s) on generated tests`)} --no-verify`);
+            await dockerExec(containerId, repoPath, `git push origin ${shellEscape(`HEAD:${followUp.branchName}`)}`, runId, ref);
+            commitSha = (await dockerExec(containerId, repoPath, "git rev-parse HEAD")).stdout.trim();
+        } else {
+            logger?.info?.("Review follow-up produced no changes", { prNumber: followUp.prNumber, runId });
+        }
+
+        // Every thread gets an answer, including the ones that could not be addressed
+        let replies = 0;
+        for (const revision of revisions) {
+            const changed = changedFiles.includes(revision.testFile);
+            const testRun = revision.passed !== undefined
+                ? revision.suiteError
+                    ? `the file fails to load (${revision.suiteError.split('\n')[0]})`
+                    : `${revision.passed} passed, ${revision.failed ?? 0} failed`
+                : undefined;
+            const body = changed && commitSha
+                ? [`Revised in ${commitSha.substring(0, 7)}.`, revision.summary, testRun ? `Test run: ${testRun}.` : undefined].filter(Boolean).join(' ')
+                : revision.success
+                    ? `Looked at this but the file did not change.${revision.summary ? ` ${revision.summary}` : ''}`
+                    : `Could not address this automatically: ${redactSecrets(revision.error ?? 'unknown error')}`;
+            for (const commentId of revision.commentIds) {
+                const ok = await replyToReviewComment(ref, token, followUp.prNumber, commentId, body).catch(() => false);
+                if (ok) replies++;
+            }
+        }
+
+        await notifyStepStatus({
+            stepId: "pushReviewFollowUpStep",
+            status: "completed",
+            runId,
+            containerId,
+            projectId: inputData.projectId,
+            title: commitSha ? "Review follow-up pushed" : "Review follow-up: nothing to push",
+            subtitle: commitSha
+                ? `${changedFiles.length} file(s) in ${commitSha.substring(0, 7)}; replied on ${replies} thread(s)`
+                : `Replied on ${replies} thread(s)`,
+            toolCallCount: cliToolMetrics.callCount,
+            metadata: { prNumber: followUp.prNumber, commitSha, changedFiles },
+        });
+
+        return {
+            containerId,
+            projectId: inputData.projectId,
+            prNumber: followUp.prNumber,
+            commitSha,
+            revisions,
+            result: commitSha ? `Pushed ${commitSha} to ${followUp.branchName}` : "No changes to push",
+            success: true,
+            toolCallCount: cliToolMetrics.callCount,
+        };
+    },
+});
+
+// =============================================================================
+// Workflow (06)
+// =============================================================================
+
+/**
+ * Started by the pull_request_review webhook for a bot PR: a fresh container cloned at the PR
+ * branch, the commented test files revised, a follow-up commit pushed and every thread answered.
+ */
+export const reviewFollowUpWorkflow = createWorkflow({
+    id: "review-followup-workflow",
+    description: "Revise generated tests from PR review comments, push a follow-up commit and reply on each thread",
+    inputSchema: PipelineInputSchema,
+    outputSchema: PushFollowUpOutputSchema,
+})
+.then(dockerSetupStep)
+.then(githubCloneStep)
+.then(provisionRuntimeStep)
+.then(reviseTestsFromReviewStep)
+.then(pushReviewFollowUpStep)
+.commit();